@@ -0,0 +1,122 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface SaveTemplateModalProps {
+  workflowId: string;
+  workflowName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveTemplateModal({ workflowId, workflowName, open, onOpenChange }: SaveTemplateModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = React.useState(workflowName);
+  const [category, setCategory] = React.useState('');
+  const [tags, setTags] = React.useState('');
+  const [description, setDescription] = React.useState('');
+
+  React.useEffect(() => {
+    if (open) setName(workflowName);
+  }, [open, workflowName]);
+
+  // Templates are made from the saved draft, so unsaved canvas changes are not included
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/workflows/${workflowId}/template`, {
+        name: name.trim(),
+        category: category.trim(),
+        description: description.trim() || null,
+        tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Template saved",
+        description: `${name.trim()} is now available in the template catalog`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="save-template-modal">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-gray-900">
+            Save as Template
+          </DialogTitle>
+          <p className="text-gray-600 mt-2">
+            Share the saved workflow as a starting point. Secrets are left out of the template.
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-template-name" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-category">Category</Label>
+            <Input
+              id="template-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="e.g., Customer Service"
+              data-testid="input-template-category"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-tags">Tags</Label>
+            <Input
+              id="template-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Comma separated, e.g., email, automation"
+              data-testid="input-template-tags"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              data-testid="input-template-description"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveTemplateMutation.mutate()}
+            disabled={!name.trim() || !category.trim() || saveTemplateMutation.isPending}
+            data-testid="button-save-template"
+          >
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,38 +4,29 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { useToast } from '@/hooks/use-toast';
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  nodes: any[];
-  edges: any[];
-}
+import { type WorkflowTemplate, type WorkflowNode } from '@shared/schema';
 
 interface TemplateModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onTemplateSelect: (template: Template) => void;
+  onTemplateSelect: (template: WorkflowTemplate) => void;
 }
 
 export function TemplateModal({ open, onOpenChange, onTemplateSelect }: TemplateModalProps) {
-  const { toast } = useToast();
   const [searchTerm, setSearchTerm] = React.useState('');
 
-  const { data: templates = [], isLoading } = useQuery({
+  const { data: templates = [], isLoading } = useQuery<WorkflowTemplate[]>({
     queryKey: ['/api/templates'],
     enabled: open,
   });
 
-  const filteredTemplates = (templates as Template[]).filter((template: Template) =>
+  const filteredTemplates = templates.filter((template) =>
     template.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    template.description.toLowerCase().includes(searchTerm.toLowerCase())
+    (template.description || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (template.tags as string[]).some((tag) => tag.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
-  const handleTemplateSelect = (template: Template) => {
+  const handleTemplateSelect = (template: WorkflowTemplate) => {
     onTemplateSelect(template);
     onOpenChange(false);
   };
@@ -61,7 +52,7 @@ export function TemplateModal({ open, onOpenChange, onTemplateSelect }: Template
             Workflow Templates
           </DialogTitle>
           <p className="text-gray-600 mt-2">
-            Choose from pre-built templates to get started quickly
+            Choose a template to create a new workflow from it
           </p>
         </DialogHeader>
         
@@ -80,61 +71,69 @@ export function TemplateModal({ open, onOpenChange, onTemplateSelect }: Template
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {filteredTemplates.map((template: Template) => (
-                  <div
-                    key={template.id}
-                    className="p-4 border border-gray-200 rounded-lg hover:shadow-md transition-all duration-200 cursor-pointer group"
-                    onClick={() => handleTemplateSelect(template)}
-                    data-testid={`template-${template.id}`}
-                  >
-                    <div className="space-y-3">
-                      <div>
-                        <h3 className="font-semibold text-gray-900 group-hover:text-primary transition-colors">
-                          {template.name}
-                        </h3>
-                        <p className="text-sm text-gray-600 mt-1">
-                          {template.description}
-                        </p>
-                      </div>
-                      
-                      <div className="flex flex-wrap gap-1">
-                        {template.nodes?.slice(0, 4).map((node: any, index: number) => {
-                          const nodeType = node.data?.name || node.type || `Node ${index + 1}`;
-                          return (
-                            <Badge
-                              key={index}
-                              variant="secondary"
-                              className={`text-xs ${getNodeTypeColor(nodeType)}`}
-                            >
-                              {nodeType}
+                {filteredTemplates.map((template) => {
+                  const nodes = template.nodes as WorkflowNode[];
+                  return (
+                    <div
+                      key={template.id}
+                      className="p-4 border border-gray-200 rounded-lg hover:shadow-md transition-all duration-200 cursor-pointer group"
+                      onClick={() => handleTemplateSelect(template)}
+                      data-testid={`template-${template.id}`}
+                    >
+                      <div className="space-y-3">
+                        <div>
+                          <div className="flex items-center justify-between">
+                            <h3 className="font-semibold text-gray-900 group-hover:text-primary transition-colors">
+                              {template.name}
+                            </h3>
+                            <Badge variant="outline" className="text-xs">{template.category}</Badge>
+                          </div>
+                          <p className="text-sm text-gray-600 mt-1">
+                            {template.description}
+                          </p>
+                        </div>
+                        
+                        <div className="flex flex-wrap gap-1">
+                          {nodes.slice(0, 4).map((node, index) => {
+                            const nodeType = node.data?.label || node.data?.nodeType || `Node ${index + 1}`;
+                            return (
+                              <Badge
+                                key={index}
+                                variant="secondary"
+                                className={`text-xs ${getNodeTypeColor(nodeType)}`}
+                              >
+                                {nodeType}
+                              </Badge>
+                            );
+                          })}
+                          {nodes.length > 4 && (
+                            <Badge variant="secondary" className="text-xs bg-gray-100 text-gray-600">
+                              +{nodes.length - 4} more
                             </Badge>
-                          );
-                        })}
-                        {template.nodes && template.nodes.length > 4 && (
-                          <Badge variant="secondary" className="text-xs bg-gray-100 text-gray-600">
-                            +{template.nodes.length - 4} more
-                          </Badge>
-                        )}
-                      </div>
+                          )}
+                        </div>
 
-                      <div className="flex items-center justify-between pt-2">
-                        <div className="flex items-center space-x-2 text-xs text-gray-500">
-                          <span>{template.nodes?.length || 0} nodes</span>
-                          <span>•</span>
-                          <span>{template.edges?.length || 0} connections</span>
+                        <div className="flex items-center justify-between pt-2">
+                          <div className="flex items-center space-x-2 text-xs text-gray-500">
+                            <span>{nodes.length} nodes</span>
+                            <span>•</span>
+                            <span>{(template.edges as unknown[]).length} connections</span>
+                            <span>•</span>
+                            <span>v{template.version}</span>
+                          </div>
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            className="text-primary hover:text-primary/80"
+                            data-testid={`use-template-${template.id}`}
+                          >
+                            Use Template
+                          </Button>
                         </div>
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          className="text-primary hover:text-primary/80"
-                          data-testid={`use-template-${template.id}`}
-                        >
-                          Use Template
-                        </Button>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
             
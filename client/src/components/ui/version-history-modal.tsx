@@ -0,0 +1,181 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { type WorkflowVersion } from '@shared/schema';
+
+interface DiffItem {
+  id: string;
+  data?: { label?: string };
+}
+
+interface ItemDiff {
+  added: DiffItem[];
+  removed: DiffItem[];
+  changed: Array<{ id: string; after: DiffItem; fields: string[] }>;
+}
+
+interface WorkflowDiff {
+  from: number;
+  to: number;
+  nodes: ItemDiff;
+  edges: ItemDiff;
+  fields: string[];
+}
+
+interface VersionHistoryModalProps {
+  workflowId: string;
+  // Version that webhooks and schedules run
+  publishedVersion: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function VersionHistoryModal({ workflowId, publishedVersion, open, onOpenChange }: VersionHistoryModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedVersion, setSelectedVersion] = React.useState<number | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<WorkflowVersion[]>({
+    queryKey: ['/api/workflows', workflowId, 'versions'],
+    enabled: open,
+  });
+
+  // Changes a version made compared with the one before it
+  const { data: diff } = useQuery<WorkflowDiff>({
+    queryKey: ['/api/workflows', workflowId, `versions/diff?from=${(selectedVersion ?? 0) - 1}&to=${selectedVersion}`],
+    enabled: open && selectedVersion !== null && selectedVersion > 1,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest('POST', `/api/workflows/${workflowId}/versions/${version}/restore`);
+      return response.json();
+    },
+    onSuccess: (_result, version) => {
+      toast({
+        title: "Restored",
+        description: `Draft restored to version ${version}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows'] });
+      setSelectedVersion(null);
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore version",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const latestVersion = versions[0]?.version;
+  const getLabel = (item: DiffItem) => item.data?.label || item.id;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-hidden" data-testid="version-history-modal">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-gray-900">
+            Version History
+          </DialogTitle>
+          <p className="text-gray-600 mt-2">
+            Every save that changes the workflow is kept as a version. Restoring one changes the draft; publish it to make it live.
+          </p>
+        </DialogHeader>
+
+        <div className="overflow-y-auto max-h-[60vh] space-y-2">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-gray-500">Loading versions...</div>
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No versions saved yet</div>
+          ) : (
+            versions.map((version) => (
+              <div
+                key={version.id}
+                className={`p-3 border rounded-lg cursor-pointer ${
+                  selectedVersion === version.version ? 'border-primary bg-primary/5' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+                onClick={() => setSelectedVersion(selectedVersion === version.version ? null : version.version)}
+                data-testid={`version-${version.version}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">v{version.version}</Badge>
+                    <span className="text-sm font-medium text-gray-900">{version.name}</span>
+                    {version.version === latestVersion && (
+                      <Badge variant="outline" className="text-xs">Current</Badge>
+                    )}
+                    {version.version === publishedVersion && (
+                      <Badge className="text-xs">Published</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-gray-500">
+                      {new Date(version.createdAt).toLocaleString()}
+                    </span>
+                    {version.version !== latestVersion && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          restoreMutation.mutate(version.version);
+                        }}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-${version.version}`}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 text-xs text-gray-500 mt-1">
+                  <span>{(version.nodes as unknown[]).length} nodes</span>
+                  <span>•</span>
+                  <span>{(version.edges as unknown[]).length} connections</span>
+                  {version.message && (
+                    <>
+                      <span>•</span>
+                      <span>{version.message}</span>
+                    </>
+                  )}
+                </div>
+
+                {selectedVersion === version.version && version.version > 1 && diff && diff.to === version.version && (
+                  <div className="mt-2 pt-2 border-t border-gray-100 text-xs space-y-1" data-testid={`version-diff-${version.version}`}>
+                    {diff.fields.length > 0 && (
+                      <div className="text-gray-700">Changed {diff.fields.join(', ')}</div>
+                    )}
+                    {diff.nodes.added.map((node) => (
+                      <div key={`added-${node.id}`} className="text-green-700">+ {getLabel(node)}</div>
+                    ))}
+                    {diff.nodes.removed.map((node) => (
+                      <div key={`removed-${node.id}`} className="text-red-700">− {getLabel(node)}</div>
+                    ))}
+                    {diff.nodes.changed.map((change) => (
+                      <div key={`changed-${change.id}`} className="text-amber-700">
+                        ~ {getLabel(change.after)}: {change.fields.join(', ')}
+                      </div>
+                    ))}
+                    {(diff.edges.added.length > 0 || diff.edges.removed.length > 0 || diff.edges.changed.length > 0) && (
+                      <div className="text-gray-700">
+                        Connections: {diff.edges.added.length} added, {diff.edges.removed.length} removed, {diff.edges.changed.length} changed
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
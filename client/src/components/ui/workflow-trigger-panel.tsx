@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,163 +9,37 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Play, Zap, Clock, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type TemplateInput, type Workflow, type WorkflowExecution, type WorkflowTemplate } from '@shared/schema';
 
-interface WorkflowInput {
-  name: string;
-  type: 'text' | 'number' | 'textarea' | 'select' | 'file' | 'url';
-  label: string;
-  description?: string;
-  required: boolean;
-  defaultValue?: string | number;
-  options?: string[];
-  placeholder?: string;
-}
-
-interface WorkflowTrigger {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  inputs: WorkflowInput[];
+interface TriggerRun {
   status: 'idle' | 'running' | 'completed' | 'failed';
   lastRun?: Date;
   executionTime?: number;
 }
 
+type WorkflowTrigger = WorkflowTemplate & TriggerRun & { inputs: TemplateInput[] };
+
 export function WorkflowTriggerPanel() {
-  const [workflows, setWorkflows] = useState<WorkflowTrigger[]>([
-    {
-      id: 'document-qa',
-      name: 'Document Q&A System',
-      description: 'Ask questions about your documents using AI-powered search',
-      category: 'RAG',
-      status: 'idle',
-      inputs: [
-        {
-          name: 'question',
-          type: 'textarea',
-          label: 'Your Question',
-          description: 'What would you like to know about your documents?',
-          required: true,
-          placeholder: 'e.g., What are the main points about machine learning?'
-        },
-        {
-          name: 'document_type',
-          type: 'select',
-          label: 'Document Type',
-          description: 'Select the type of documents to search',
-          required: false,
-          options: ['All Documents', 'PDFs', 'CSVs', 'Web Pages'],
-          defaultValue: 'All Documents'
-        },
-        {
-          name: 'search_depth',
-          type: 'select',
-          label: 'Search Depth',
-          description: 'How thorough should the search be?',
-          required: false,
-          options: ['Quick', 'Standard', 'Deep'],
-          defaultValue: 'Standard'
-        }
-      ]
-    },
-    {
-      id: 'web-research-agent',
-      name: 'Web Research Agent',
-      description: 'AI agent that researches topics by searching the web and analyzing content',
-      category: 'Research',
-      status: 'idle',
-      inputs: [
-        {
-          name: 'research_topic',
-          type: 'textarea',
-          label: 'Research Topic',
-          description: 'What topic would you like me to research?',
-          required: true,
-          placeholder: 'e.g., Latest developments in quantum computing'
-        },
-        {
-          name: 'search_engines',
-          type: 'select',
-          label: 'Search Engines',
-          description: 'Which search engines to use',
-          required: false,
-          options: ['Google', 'Bing', 'DuckDuckGo', 'All'],
-          defaultValue: 'Google'
-        },
-        {
-          name: 'max_results',
-          type: 'number',
-          label: 'Maximum Results',
-          description: 'How many search results to analyze',
-          required: false,
-          defaultValue: 5
-        }
-      ]
-    },
-    {
-      id: 'ai-code-assistant',
-      name: 'AI Code Assistant',
-      description: 'Get AI-powered code review, generation, and optimization',
-      category: 'Development',
-      status: 'idle',
-      inputs: [
-        {
-          name: 'code',
-          type: 'textarea',
-          label: 'Your Code',
-          description: 'Paste the code you want me to review or optimize',
-          required: true,
-          placeholder: '// Paste your code here...'
-        },
-        {
-          name: 'language',
-          type: 'select',
-          label: 'Programming Language',
-          description: 'Select the programming language',
-          required: false,
-          options: ['Python', 'JavaScript', 'TypeScript', 'Java', 'C++', 'Go'],
-          defaultValue: 'Python'
-        },
-        {
-          name: 'task',
-          type: 'select',
-          label: 'What do you need?',
-          description: 'Select the type of assistance',
-          required: false,
-          options: ['Code Review', 'Optimization', 'Bug Fix', 'Documentation', 'All'],
-          defaultValue: 'Code Review'
-        }
-      ]
-    },
-    {
-      id: 'conversational-ai',
-      name: 'Conversational AI',
-      description: 'Chat with an AI that remembers your conversation context',
-      category: 'Conversation',
-      status: 'idle',
-      inputs: [
-        {
-          name: 'message',
-          type: 'textarea',
-          label: 'Your Message',
-          description: 'What would you like to chat about?',
-          required: true,
-          placeholder: 'Hello! How can you help me today?'
-        },
-        {
-          name: 'personality',
-          type: 'select',
-          label: 'AI Personality',
-          description: 'Choose how the AI should behave',
-          required: false,
-          options: ['Helpful Assistant', 'Creative Writer', 'Technical Expert', 'Friendly Chat'],
-          defaultValue: 'Helpful Assistant'
-        }
-      ]
-    }
-  ]);
+  const queryClient = useQueryClient();
+  const [runs, setRuns] = useState<Record<string, TriggerRun>>({});
+
+  // Templates that declare inputs can be run straight from here
+  const { data: templates = [], isLoading } = useQuery<WorkflowTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+  const workflows: WorkflowTrigger[] = templates
+    .filter(template => (template.inputs as TemplateInput[]).length > 0)
+    .map(template => ({
+      ...template,
+      inputs: template.inputs as TemplateInput[],
+      ...(runs[template.id] || { status: 'idle' }),
+    }));
+
+  const setRun = (templateId: string, run: TriggerRun) => {
+    setRuns(prev => ({ ...prev, [templateId]: run }));
+  };
 
   const [inputValues, setInputValues] = useState<Record<string, Record<string, any>>>({});
   const [isExecuting, setIsExecuting] = useState(false);
@@ -200,61 +75,34 @@ export function WorkflowTriggerPanel() {
     }
 
     setIsExecuting(true);
-    
-    // Update workflow status
-    setWorkflows(prev => prev.map(w => 
-      w.id === workflow.id ? { ...w, status: 'running' } : w
-    ));
+    setRun(workflow.id, { ...runs[workflow.id], status: 'running' });
 
     try {
       const startTime = Date.now();
-      
-      // Prepare execution data
-      const executionData = {
-        workflowId: workflow.id,
-        inputs: inputValues[workflow.id] || {},
-        timestamp: new Date().toISOString()
-      };
+      const target = await getTemplateWorkflow(workflow);
+      const inputs = Object.fromEntries(
+        workflow.inputs.map(input => [input.name, inputValues[workflow.id]?.[input.name] ?? input.defaultValue])
+      );
 
-      // Execute workflow (this would call your backend)
-      const response = await fetch('/api/workflows/execute', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(executionData)
-      });
+      const response = await apiRequest('POST', `/api/workflows/${target.id}/execute`, inputs);
+      const execution: WorkflowExecution = await response.json();
+      if (execution.status === 'failed') {
+        throw new Error(execution.error || 'Workflow execution failed');
+      }
 
       const executionTime = Date.now() - startTime;
+      setRun(workflow.id, { status: 'completed', lastRun: new Date(), executionTime });
 
-      if (response.ok) {
-        const result = await response.json();
-        
-        setWorkflows(prev => prev.map(w => 
-          w.id === workflow.id ? { 
-            ...w, 
-            status: 'completed', 
-            lastRun: new Date(),
-            executionTime 
-          } : w
-        ));
-
-        toast({
-          title: "Workflow Completed",
-          description: `${workflow.name} executed successfully in ${executionTime}ms!`,
-        });
-
-        // Show results in a modal or expand the workflow
-        console.log('Workflow result:', result);
-      } else {
-        throw new Error('Workflow execution failed');
-      }
+      toast({
+        title: "Workflow Completed",
+        description: `${workflow.name} executed successfully in ${executionTime}ms!`,
+      });
     } catch (error) {
-      setWorkflows(prev => prev.map(w => 
-        w.id === workflow.id ? { ...w, status: 'failed' } : w
-      ));
+      setRun(workflow.id, { ...runs[workflow.id], status: 'failed' });
 
       toast({
         title: "Workflow Failed",
-        description: `Failed to execute ${workflow.name}. Please try again.`,
+        description: error instanceof Error ? error.message : `Failed to execute ${workflow.name}. Please try again.`,
         variant: "destructive"
       });
     } finally {
@@ -262,10 +110,19 @@ export function WorkflowTriggerPanel() {
     }
   };
 
+  // Runs use the user's workflow made from the template, creating one the first time
+  const getTemplateWorkflow = async (template: WorkflowTemplate): Promise<Workflow> => {
+    const existing = await queryClient.fetchQuery<Workflow[]>({ queryKey: ['/api/workflows'] });
+    const workflow = existing.find(item => item.templateId === template.id);
+    if (workflow) return workflow;
+
+    const response = await apiRequest('POST', `/api/templates/${template.id}/instantiate`);
+    queryClient.invalidateQueries({ queryKey: ['/api/workflows'] });
+    return response.json();
+  };
+
   const resetWorkflow = (workflowId: string) => {
-    setWorkflows(prev => prev.map(w => 
-      w.id === workflowId ? { ...w, status: 'idle' } : w
-    ));
+    setRun(workflowId, { ...runs[workflowId], status: 'idle' });
     setInputValues(prev => {
       const newValues = { ...prev };
       delete newValues[workflowId];
@@ -273,7 +130,7 @@ export function WorkflowTriggerPanel() {
     });
   };
 
-  const renderInputField = (workflowId: string, input: WorkflowInput) => {
+  const renderInputField = (workflowId: string, input: TemplateInput) => {
     const value = inputValues[workflowId]?.[input.name] ?? input.defaultValue ?? '';
 
     switch (input.type) {
@@ -372,6 +229,14 @@ export function WorkflowTriggerPanel() {
       </div>
 
       <div className="grid gap-6">
+        {isLoading && (
+          <div className="text-center py-8 text-muted-foreground">Loading workflows...</div>
+        )}
+        {!isLoading && workflows.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            No templates with inputs yet. Add inputs to a template to run it from here.
+          </div>
+        )}
         {workflows.map((workflow) => (
           <Card key={workflow.id} className="overflow-hidden">
             <CardHeader className="bg-muted/50">
@@ -22,6 +22,7 @@ import { CustomNode } from './custom-node';
 import { LangChainNode } from './langchain-node';
 import { NODE_TYPES } from '@/lib/node-types';
 import { LANGCHAIN_NODE_TYPES } from '@/lib/langchain-node-types';
+import type { NodeStatus } from '@shared/schema';
 
 const nodeTypes = {
   customNode: CustomNode,
@@ -48,6 +49,7 @@ interface CanvasProps {
   onToggleLeftSidebar: () => void;
   onToggleRightSidebar: () => void;
   executionStatus: string;
+  nodeStatuses?: Record<string, NodeStatus>;
 }
 
 function CanvasContent({
@@ -63,12 +65,22 @@ function CanvasContent({
   rightSidebarOpen,
   onToggleLeftSidebar,
   onToggleRightSidebar,
-  executionStatus
+  executionStatus,
+  nodeStatuses = {}
 }: CanvasProps) {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const reactFlowInstance = useReactFlow();
   const [isDragOver, setIsDragOver] = useState(false);
 
+  const displayedNodes = React.useMemo(
+    () => nodes.map(node => 
+      nodeStatuses[node.id]
+        ? { ...node, className: `node-status-${nodeStatuses[node.id]}` }
+        : node
+    ),
+    [nodes, nodeStatuses]
+  );
+
   const onConnect = useCallback(
     (params: Connection) => {
       const newEdge = {
@@ -187,7 +199,7 @@ function CanvasContent({
       )}
 
       <ReactFlow
-        nodes={nodes}
+        nodes={displayedNodes}
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
@@ -1,7 +1,9 @@
-import React from 'react';
-import { Handle, Position, NodeProps } from 'reactflow';
+import React, { useEffect } from 'react';
+import { Handle, Position, NodeProps, useUpdateNodeInternals } from 'reactflow';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { SWITCH_DEFAULT_OUTPUT } from '@/lib/node-types';
+import type { SwitchRule, WorkflowValidationProblem } from '@shared/schema';
 
 interface CustomNodeData {
   nodeType: string;
@@ -28,14 +30,28 @@ export function CustomNode({ data, selected, id }: NodeProps<CustomNodeData>) {
   };
 
   const colors = getNodeColor(data.category);
+  // Set by the builder after a failed activation; never saved with the node
+  const problems: WorkflowValidationProblem[] = data.validationProblems || [];
   const hasInput = data.category !== 'inputs';
-  const hasOutput = data.category !== 'outputs' || data.nodeType === 'webhook-response';
+  // Loops and switches have their own named outputs instead
+  const hasOutput = (data.category !== 'outputs' || data.nodeType === 'webhook-response')
+    && data.nodeType !== 'loop' && data.nodeType !== 'switch';
+  const switchOutputs: Array<Pick<SwitchRule, 'id' | 'name'>> = data.nodeType === 'switch'
+    ? [...(data.rules || []), SWITCH_DEFAULT_OUTPUT]
+    : [];
+
+  // React Flow caches handle positions, so it has to be told when outputs are added or removed
+  const updateNodeInternals = useUpdateNodeInternals();
+  const outputIds = switchOutputs.map((output) => output.id).join('|');
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, outputIds, updateNodeInternals]);
 
   return (
     <div 
       className={`
         relative min-w-[200px] max-w-[250px] rounded-lg shadow-lg border-2 transition-all duration-200
-        ${colors.bg} ${colors.border}
+        ${colors.bg} ${problems.length > 0 ? 'border-red-500' : colors.border}
         ${selected ? 'ring-2 ring-primary ring-offset-2' : 'hover:shadow-xl'}
       `}
       data-testid={`node-${id}`}
@@ -65,6 +81,27 @@ export function CustomNode({ data, selected, id }: NodeProps<CustomNodeData>) {
         <p className="text-xs text-gray-600 mb-2">{data.description}</p>
 
         {/* Node-specific content */}
+        {data.nodeType === 'webhook' && (
+          <div className="text-xs text-gray-500 font-mono">
+            {data.method || 'POST'} /{(data.path || '').replace(/^\/+/, '')}
+          </div>
+        )}
+
+        {data.nodeType === 'schedule' && (
+          <div className="text-xs text-gray-500 font-mono">
+            {data.mode === 'interval'
+              ? `Every ${data.intervalSeconds || 3600}s`
+              : `${data.cron || '0 9 * * *'} (${data.timezone || 'UTC'})`}
+          </div>
+        )}
+
+        {data.nodeType === 'webhook-response' && (
+          <div className="text-xs text-gray-500">
+            {data.statusCode || 200} {data.bodyType === 'text' ? 'text' : 'JSON'}
+            {data.respondImmediately && ', responds immediately'}
+          </div>
+        )}
+
         {data.nodeType === 'openai' && (
           <div className="text-xs text-gray-500">
             <div>Model: {data.model || 'gpt-4o'}</div>
@@ -78,6 +115,47 @@ export function CustomNode({ data, selected, id }: NodeProps<CustomNodeData>) {
           </div>
         )}
 
+        {/* One row and output handle per rule, plus the default */}
+        {data.nodeType === 'switch' && (
+          <div className="mt-2 -mr-4 space-y-1">
+            <div className="text-xs text-gray-500 mb-1">
+              {data.mode === 'classify' ? `Classify with ${data.model || 'gpt-4o'}` : 'Match rules in order'}
+            </div>
+            {switchOutputs.map((output) => (
+              <div key={output.id} className="relative pr-4 text-right text-xs text-gray-700">
+                {output.name}
+                <Handle
+                  type="source"
+                  position={Position.Right}
+                  id={output.id}
+                  className={`w-3 h-3 ${output.id === SWITCH_DEFAULT_OUTPUT.id ? 'bg-gray-500' : colors.accent} border-2 border-white`}
+                  data-testid={`handle-output-${output.id}-${id}`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data.nodeType === 'merge' && (
+          <div className="text-xs text-gray-500">
+            Mode: {data.mode || 'wait-all'}
+            {data.mode === 'join' && data.joinKey && ` (${data.joinKey})`}
+          </div>
+        )}
+
+        {data.nodeType === 'loop' && (
+          <div className="text-xs text-gray-500">
+            <div>Items: {data.items || 'Not configured'}</div>
+            <div>Batch size: {data.batchSize || 1}, concurrency: {data.concurrency || 1}</div>
+          </div>
+        )}
+
+        {data.nodeType === 'execute-workflow' && (
+          <div className="text-xs text-gray-500">
+            {data.workflowName ? `Runs: ${data.workflowName}` : 'No workflow selected'}
+          </div>
+        )}
+
         {data.nodeType === 'email' && (
           <div className="text-xs text-gray-500">
             <div>To: {data.to || 'Not configured'}</div>
@@ -90,6 +168,14 @@ export function CustomNode({ data, selected, id }: NodeProps<CustomNodeData>) {
             Language: {data.language || 'javascript'}
           </div>
         )}
+
+        {problems.length > 0 && (
+          <ul className="mt-2 space-y-1 text-xs text-red-600" data-testid={`node-problems-${id}`}>
+            {problems.map((problem, index) => (
+              <li key={index}>{problem.message}</li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {hasOutput && (
@@ -101,6 +187,39 @@ export function CustomNode({ data, selected, id }: NodeProps<CustomNodeData>) {
         />
       )}
 
+      {/* Failures are routed here when continue on error is enabled */}
+      {data.continueOnError && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id="error"
+          className="w-3 h-3 bg-red-500 border-2 border-white"
+          data-testid={`handle-output-error-${id}`}
+        />
+      )}
+
+      {/* The item output runs once per item; done continues with the collected results */}
+      {data.nodeType === 'loop' && (
+        <>
+          <Handle
+            type="source"
+            position={Position.Right}
+            id="item"
+            style={{ top: '30%' }}
+            className="w-3 h-3 bg-emerald-500 border-2 border-white"
+            data-testid={`handle-output-item-${id}`}
+          />
+          <Handle
+            type="source"
+            position={Position.Right}
+            id="done"
+            style={{ top: '70%' }}
+            className="w-3 h-3 bg-gray-500 border-2 border-white"
+            data-testid={`handle-output-done-${id}`}
+          />
+        </>
+      )}
+
       {/* Multiple outputs for condition nodes */}
       {data.nodeType === 'condition' && (
         <>
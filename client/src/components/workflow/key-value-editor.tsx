@@ -0,0 +1,73 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+
+interface KeyValueEditorProps {
+  value: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  addLabel?: string;
+  testIdPrefix: string;
+}
+
+// Editable list of name/value pairs, such as a sub-workflow input mapping or response headers
+export function KeyValueEditor({
+  value,
+  onChange,
+  keyPlaceholder = 'name',
+  valuePlaceholder = 'value',
+  addLabel = 'Add Field',
+  testIdPrefix,
+}: KeyValueEditorProps) {
+  const entries = Object.entries(value);
+
+  // Keeps the entry's position so the row being edited does not jump
+  const renameKey = (oldKey: string, newKey: string) => {
+    if (newKey !== oldKey && newKey in value) return;
+    onChange(Object.fromEntries(entries.map(([key, item]) => [key === oldKey ? newKey : key, item])));
+  };
+
+  const removeKey = (removedKey: string) => {
+    onChange(Object.fromEntries(entries.filter(([key]) => key !== removedKey)));
+  };
+
+  return (
+    <div className="mt-1 space-y-2">
+      {entries.map(([key, item], index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <Input
+            value={key}
+            onChange={(e) => renameKey(key, e.target.value)}
+            placeholder={keyPlaceholder}
+            className="w-1/3 font-mono"
+            data-testid={`${testIdPrefix}-key-${index}`}
+          />
+          <Input
+            value={String(item)}
+            onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+            placeholder={valuePlaceholder}
+            className="flex-1 font-mono"
+            data-testid={`${testIdPrefix}-value-${index}`}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeKey(key)}
+            data-testid={`${testIdPrefix}-remove-${index}`}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ ...value, [`${keyPlaceholder}${entries.length + 1}`]: '' })}
+        data-testid={`${testIdPrefix}-add`}
+      >
+        {addLabel}
+      </Button>
+    </div>
+  );
+}
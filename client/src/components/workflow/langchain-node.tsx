@@ -11,6 +11,7 @@ interface LangChainNodeProps {
     category: string;
     color: string;
     config: Record<string, any>;
+    continueOnError?: boolean;
   };
   selected?: boolean;
 }
@@ -101,6 +102,14 @@ export function LangChainNode({ data, selected }: LangChainNodeProps) {
         position={Position.Right}
         className="w-3 h-3 bg-gray-400 border-2 border-white"
       />
+      {data.continueOnError && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id="error"
+          className="w-3 h-3 bg-red-500 border-2 border-white"
+        />
+      )}
     </Card>
   );
 }
@@ -1,5 +1,8 @@
 import React from 'react';
 import { Node } from 'reactflow';
+import { useQuery } from '@tanstack/react-query';
+import { X } from 'lucide-react';
+import { KeyValueEditor } from './key-value-editor';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -7,9 +10,21 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { NODE_TYPES } from '@/lib/node-types';
+import {
+  NODE_TYPES,
+  MERGE_MODES,
+  SWITCH_OPERATORS,
+  WEBHOOK_METHODS,
+  WEBHOOK_AUTHENTICATION,
+  WEBHOOK_RESPONSE_MODES,
+  SCHEDULE_MODES,
+  RETRY_ERROR_CLASSES,
+  DEFAULT_RETRY_POLICY,
+} from '@/lib/node-types';
+import type { RetryPolicy, RetryableError, SwitchRule, Workflow, WorkflowSchedule, WorkflowSettings } from '@shared/schema';
 import { LANGCHAIN_NODE_TYPES, getNodeTypeById } from '@/lib/langchain-node-types';
 import { LLM_PROVIDERS, getProviderModels, getProviderName, supportsSystemPrompt } from '@/lib/llm-providers';
 
@@ -17,23 +32,67 @@ interface PropertiesPanelProps {
   selectedNode: Node | null;
   onNodeUpdate: (nodeId: string, updates: any) => void;
   onNodeDelete: (nodeId: string) => void;
+  workflowId?: string;
   workflowName: string;
   onWorkflowNameChange: (name: string) => void;
+  workflowSettings: WorkflowSettings;
+  onWorkflowSettingsChange: (settings: WorkflowSettings) => void;
 }
 
 export function PropertiesPanel({ 
   selectedNode, 
   onNodeUpdate, 
   onNodeDelete,
+  workflowId,
   workflowName,
-  onWorkflowNameChange
+  onWorkflowNameChange,
+  workflowSettings,
+  onWorkflowSettingsChange
 }: PropertiesPanelProps) {
+  const { data: workflows = [] } = useQuery<Workflow[]>({
+    queryKey: ['/api/workflows'],
+  });
+
+  const { data: schedules = [] } = useQuery<WorkflowSchedule[]>({
+    queryKey: ['/api/workflows', workflowId, 'schedules'],
+    enabled: !!workflowId && selectedNode?.data.nodeType === 'schedule',
+  });
+  const nodeSchedule = schedules.find((schedule) => schedule.nodeId === selectedNode?.id);
+
+
   const updateNodeData = (key: string, value: any) => {
     if (selectedNode) {
       onNodeUpdate(selectedNode.id, { [key]: value });
     }
   };
 
+  const switchRules: SwitchRule[] = selectedNode?.data.rules || [];
+
+  const updateSwitchRule = (index: number, updates: Partial<SwitchRule>) => {
+    updateNodeData('rules', switchRules.map((rule, i) => i === index ? { ...rule, ...updates } : rule));
+  };
+
+  const addSwitchRule = () => {
+    updateNodeData('rules', [
+      ...switchRules,
+      { id: `output-${Date.now()}`, name: `Output ${switchRules.length + 1}`, operator: 'equals', value: '' },
+    ]);
+  };
+
+  const retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...selectedNode?.data.retry };
+
+  const updateRetryPolicy = (updates: Partial<RetryPolicy>) => {
+    updateNodeData('retry', { ...retryPolicy, ...updates });
+  };
+
+  const toggleRetryErrorClass = (errorClass: RetryableError, checked: boolean) => {
+    updateRetryPolicy({
+      retryOn: checked
+        ? [...retryPolicy.retryOn, errorClass]
+        : retryPolicy.retryOn.filter((value) => value !== errorClass),
+    });
+  };
+
   if (!selectedNode) {
     return (
       <>
@@ -81,11 +140,34 @@ export function PropertiesPanel({
                 Execution Settings
               </Label>
               <div className="mt-2 space-y-3">
-                <div className="flex items-center space-x-3">
-                  <Switch id="error-handling" defaultChecked data-testid="error-handling-switch" />
-                  <Label htmlFor="error-handling" className="text-sm text-gray-700">
-                    Continue on error
+                <div>
+                  <Label htmlFor="error-workflow" className="text-sm font-medium text-gray-700">
+                    Error Workflow
                   </Label>
+                  <Select
+                    value={workflowSettings.errorWorkflowId || 'none'}
+                    onValueChange={(value) => onWorkflowSettingsChange({
+                      ...workflowSettings,
+                      errorWorkflowId: value === 'none' ? undefined : value,
+                    })}
+                  >
+                    <SelectTrigger id="error-workflow" className="mt-1" data-testid="error-workflow-select">
+                      <SelectValue placeholder="Select workflow" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {workflows
+                        .filter((workflow) => workflow.id !== workflowId)
+                        .map((workflow) => (
+                          <SelectItem key={workflow.id} value={workflow.id}>
+                            {workflow.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Runs with the failing node id, error and context when a node fails without continue on error
+                  </p>
                 </div>
                 
                 <div>
@@ -95,10 +177,18 @@ export function PropertiesPanel({
                   <Input
                     id="timeout"
                     type="number"
-                    defaultValue={300}
+                    min={0}
+                    value={workflowSettings.timeoutSeconds ?? 300}
+                    onChange={(e) => onWorkflowSettingsChange({
+                      ...workflowSettings,
+                      timeoutSeconds: Math.max(0, parseInt(e.target.value) || 0),
+                    })}
                     className="mt-1"
                     data-testid="timeout-input"
                   />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Runs still going after this long are stopped and marked timed out. Use 0 for no limit.
+                  </p>
                 </div>
               </div>
             </div>
@@ -449,6 +539,625 @@ export function PropertiesPanel({
             </div>
           )}
 
+          {selectedNode.data.nodeType === 'webhook' && (
+            <div>
+              <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Webhook Settings
+              </Label>
+              <div className="mt-2 space-y-3">
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label className="text-sm font-medium text-gray-700">Method</Label>
+                    <Select
+                      value={selectedNode.data.method || 'POST'}
+                      onValueChange={(value) => updateNodeData('method', value)}
+                    >
+                      <SelectTrigger className="mt-1" data-testid="webhook-method-select">
+                        <SelectValue placeholder="Method" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEBHOOK_METHODS.map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {method}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2">
+                    <Label htmlFor="webhook-path" className="text-sm font-medium text-gray-700">Path</Label>
+                    <Input
+                      id="webhook-path"
+                      value={selectedNode.data.path || ''}
+                      onChange={(e) => updateNodeData('path', e.target.value)}
+                      placeholder="orders/new"
+                      className="mt-1 font-mono"
+                      data-testid="webhook-path-input"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground break-all">
+                  {workflowId
+                    ? `${window.location.origin}/api/hooks/${workflowId}/${(selectedNode.data.path || '').replace(/^\/+/, '')}`
+                    : 'Save the workflow to get its webhook URL.'}
+                  {' '}Only active workflows receive calls.
+                </p>
+
+                <div>
+                  <Label className="text-sm font-medium text-gray-700">Authentication</Label>
+                  <Select
+                    value={selectedNode.data.authentication || 'none'}
+                    onValueChange={(value) => updateNodeData('authentication', value)}
+                  >
+                    <SelectTrigger className="mt-1" data-testid="webhook-authentication-select">
+                      <SelectValue placeholder="Select authentication" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEBHOOK_AUTHENTICATION.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {selectedNode.data.authentication && selectedNode.data.authentication !== 'none' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="webhook-secret" className="text-sm font-medium text-gray-700">Secret</Label>
+                      <Input
+                        id="webhook-secret"
+                        type="password"
+                        value={selectedNode.data.secret || ''}
+                        onChange={(e) => updateNodeData('secret', e.target.value)}
+                        className="mt-1"
+                        data-testid="webhook-secret-input"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="webhook-header" className="text-sm font-medium text-gray-700">Header</Label>
+                      <Input
+                        id="webhook-header"
+                        value={selectedNode.data.headerName || ''}
+                        onChange={(e) => updateNodeData('headerName', e.target.value)}
+                        placeholder={selectedNode.data.authentication === 'hmac' ? 'x-webhook-signature' : 'x-webhook-secret'}
+                        className="mt-1 font-mono"
+                        data-testid="webhook-header-input"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <Label className="text-sm font-medium text-gray-700">Respond</Label>
+                  <Select
+                    value={selectedNode.data.responseMode || 'onReceived'}
+                    onValueChange={(value) => updateNodeData('responseMode', value)}
+                  >
+                    <SelectTrigger className="mt-1" data-testid="webhook-response-mode-select">
+                      <SelectValue placeholder="Select when to respond" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEBHOOK_RESPONSE_MODES.map((mode) => (
+                        <SelectItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {WEBHOOK_RESPONSE_MODES.find((mode) => mode.value === (selectedNode.data.responseMode || 'onReceived'))?.description}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {selectedNode.data.nodeType === 'schedule' && (
+            <div>
+              <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Schedule
+              </Label>
+              <div className="mt-2 space-y-3">
+                <div>
+                  <Label className="text-sm font-medium text-gray-700">Run</Label>
+                  <Select
+                    value={selectedNode.data.mode || 'cron'}
+                    onValueChange={(value) => updateNodeData('mode', value)}
+                  >
+                    <SelectTrigger className="mt-1" data-testid="schedule-mode-select">
+                      <SelectValue placeholder="Select schedule type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SCHEDULE_MODES.map((mode) => (
+                        <SelectItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {selectedNode.data.mode === 'interval' ? (
+                  <div>
+                    <Label htmlFor="schedule-interval" className="text-sm font-medium text-gray-700">Every (seconds)</Label>
+                    <Input
+                      id="schedule-interval"
+                      type="number"
+                      min={1}
+                      value={selectedNode.data.intervalSeconds ?? 3600}
+                      onChange={(e) => updateNodeData('intervalSeconds', Math.max(1, parseInt(e.target.value, 10) || 1))}
+                      className="mt-1"
+                      data-testid="schedule-interval-input"
+                    />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="schedule-cron" className="text-sm font-medium text-gray-700">Cron</Label>
+                      <Input
+                        id="schedule-cron"
+                        value={selectedNode.data.cron || ''}
+                        onChange={(e) => updateNodeData('cron', e.target.value)}
+                        placeholder="0 9 * * mon-fri"
+                        className="mt-1 font-mono"
+                        data-testid="schedule-cron-input"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="schedule-timezone" className="text-sm font-medium text-gray-700">Time zone</Label>
+                      <Input
+                        id="schedule-timezone"
+                        value={selectedNode.data.timezone || ''}
+                        onChange={(e) => updateNodeData('timezone', e.target.value)}
+                        placeholder="UTC"
+                        className="mt-1"
+                        data-testid="schedule-timezone-input"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <p className="text-xs text-muted-foreground">
+                  {nodeSchedule?.nextRunAt
+                    ? `Next run: ${new Date(nodeSchedule.nextRunAt).toLocaleString()}`
+                    : 'Runs only while the workflow is saved and active.'}
+                  {nodeSchedule?.lastRunAt && ` Last run: ${new Date(nodeSchedule.lastRunAt).toLocaleString()}`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {selectedNode.data.nodeType === 'webhook-response' && (
+            <div>
+              <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Response Settings
+              </Label>
+              <div className="mt-2 space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="response-status" className="text-sm font-medium text-gray-700">Status Code</Label>
+                    <Input
+                      id="response-status"
+                      type="number"
+                      min={100}
+                      max={599}
+                      value={selectedNode.data.statusCode ?? 200}
+                      onChange={(e) => updateNodeData('statusCode', parseInt(e.target.value) || 200)}
+                      className="mt-1"
+                      data-testid="response-status-input"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium text-gray-700">Body Type</Label>
+                    <Select
+                      value={selectedNode.data.bodyType || 'json'}
+                      onValueChange={(value) => updateNodeData('bodyType', value)}
+                    >
+                      <SelectTrigger className="mt-1" data-testid="response-body-type-select">
+                        <SelectValue placeholder="Body type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="json">JSON</SelectItem>
+                        <SelectItem value="text">Text</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="response-body" className="text-sm font-medium text-gray-700">Body</Label>
+                  <Textarea
+                    id="response-body"
+                    value={selectedNode.data.responseData || ''}
+                    onChange={(e) => updateNodeData('responseData', e.target.value)}
+                    placeholder={selectedNode.data.bodyType === 'text' ? 'Thanks, {{ input.body.name }}' : '{"status": "ok"} or {{ openai-1 }}'}
+                    className="mt-1 font-mono"
+                    rows={4}
+                    data-testid="response-body-input"
+                  />
+                </div>
+
+                <div>
+                  <Label className="text-sm font-medium text-gray-700">Headers</Label>
+                  <KeyValueEditor
+                    value={selectedNode.data.headers || {}}
+                    onChange={(value) => updateNodeData('headers', value)}
+                    keyPlaceholder="x-header"
+                    addLabel="Add Header"
+                    testIdPrefix="response-header"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="respond-immediately" className="text-sm font-medium text-gray-700">
+                    Respond immediately
+                  </Label>
+                  <Switch
+                    id="respond-immediately"
+                    checked={!!selectedNode.data.respondImmediately}
+                    onCheckedChange={(checked) => updateNodeData('respondImmediately', checked)}
+                    data-testid="respond-immediately-switch"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {selectedNode.data.respondImmediately
+                    ? 'The caller gets this reply as soon as the node runs; later nodes keep running in the background.'
+                    : 'The caller gets this reply once the whole workflow has finished.'}
+                  {' '}Used when the webhook responds using this node.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {selectedNode.data.nodeType === 'switch' && (
+            <div>
+              <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Switch Settings
+              </Label>
+              <div className="mt-2 space-y-3">
+                <div>
+                  <Label htmlFor="switch-mode" className="text-sm font-medium text-gray-700">
+                    Mode
+                  </Label>
+                  <Select
+                    value={selectedNode.data.mode || 'rules'}
+                    onValueChange={(value) => updateNodeData('mode', value)}
+                  >
+                    <SelectTrigger id="switch-mode" className="mt-1" data-testid="switch-mode-select">
+                      <SelectValue placeholder="Select mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rules">Rules</SelectItem>
+                      <SelectItem value="classify">LLM classification</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="switch-value" className="text-sm font-medium text-gray-700">
+                    Value
+                  </Label>
+                  <Input
+                    id="switch-value"
+                    value={selectedNode.data.value || ''}
+                    onChange={(e) => updateNodeData('value', e.target.value)}
+                    placeholder="{{ input.ticket.subject }}"
+                    className="mt-1 font-mono"
+                    data-testid="switch-value-input"
+                  />
+                </div>
+
+                {selectedNode.data.mode === 'classify' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label className="text-sm font-medium text-gray-700">Provider</Label>
+                      <Select
+                        value={selectedNode.data.provider || 'openai'}
+                        onValueChange={(value) => onNodeUpdate(selectedNode.id, {
+                          provider: value,
+                          model: getProviderModels(value)[0],
+                        })}
+                      >
+                        <SelectTrigger className="mt-1" data-testid="switch-provider-select">
+                          <SelectValue placeholder="Select provider" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(LLM_PROVIDERS).map(([id, provider]) => (
+                            <SelectItem key={id} value={id}>
+                              {provider.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium text-gray-700">Model</Label>
+                      <Select
+                        value={selectedNode.data.model || 'gpt-4o'}
+                        onValueChange={(value) => updateNodeData('model', value)}
+                      >
+                        <SelectTrigger className="mt-1" data-testid="switch-model-select">
+                          <SelectValue placeholder="Select model" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {getProviderModels(selectedNode.data.provider || 'openai').map((model) => (
+                            <SelectItem key={model} value={model}>
+                              {model}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <Label className="text-sm font-medium text-gray-700">
+                    Outputs
+                  </Label>
+                  <div className="mt-1 space-y-2">
+                    {switchRules.map((rule, index) => (
+                      <div key={rule.id} className="p-2 border border-gray-200 rounded space-y-2">
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            value={rule.name}
+                            onChange={(e) => updateSwitchRule(index, { name: e.target.value })}
+                            placeholder="Output name"
+                            className="flex-1"
+                            data-testid={`switch-rule-name-${index}`}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateNodeData('rules', switchRules.filter((_, i) => i !== index))}
+                            data-testid={`switch-rule-remove-${index}`}
+                          >
+                            <X className="w-3 h-3" />
+                          </Button>
+                        </div>
+
+                        {selectedNode.data.mode === 'classify' ? (
+                          <Input
+                            value={rule.description || ''}
+                            onChange={(e) => updateSwitchRule(index, { description: e.target.value })}
+                            placeholder="What belongs in this output"
+                            data-testid={`switch-rule-description-${index}`}
+                          />
+                        ) : (
+                          <>
+                            <Select
+                              value={rule.operator || 'equals'}
+                              onValueChange={(value) => updateSwitchRule(index, { operator: value as SwitchRule['operator'] })}
+                            >
+                              <SelectTrigger data-testid={`switch-rule-operator-${index}`}>
+                                <SelectValue placeholder="Select operator" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SWITCH_OPERATORS.map((operator) => (
+                                  <SelectItem key={operator.value} value={operator.value}>
+                                    {operator.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {rule.operator === 'range' ? (
+                              <div className="grid grid-cols-2 gap-2">
+                                <Input
+                                  type="number"
+                                  value={rule.min ?? ''}
+                                  onChange={(e) => updateSwitchRule(index, { min: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                  placeholder="Min"
+                                  data-testid={`switch-rule-min-${index}`}
+                                />
+                                <Input
+                                  type="number"
+                                  value={rule.max ?? ''}
+                                  onChange={(e) => updateSwitchRule(index, { max: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                  placeholder="Max"
+                                  data-testid={`switch-rule-max-${index}`}
+                                />
+                              </div>
+                            ) : (
+                              <Input
+                                value={rule.value || ''}
+                                onChange={(e) => updateSwitchRule(index, { value: e.target.value })}
+                                placeholder={rule.operator === 'regex' ? '^ERR-\\d+$' : 'Value'}
+                                className="font-mono"
+                                data-testid={`switch-rule-value-${index}`}
+                              />
+                            )}
+                            {rule.operator !== 'range' && (
+                              <div className="flex items-center space-x-2">
+                                <Switch
+                                  id={`switch-rule-case-${index}`}
+                                  checked={!!rule.caseSensitive}
+                                  onCheckedChange={(checked) => updateSwitchRule(index, { caseSensitive: checked })}
+                                />
+                                <Label htmlFor={`switch-rule-case-${index}`} className="text-xs text-gray-600">
+                                  Case sensitive
+                                </Label>
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    ))}
+                    <Button variant="outline" size="sm" onClick={addSwitchRule} data-testid="switch-rule-add">
+                      Add Output
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {selectedNode.data.mode === 'classify'
+                      ? 'The model picks one output by name; anything else goes to Default.'
+                      : 'The first matching output is taken; if none match, Default is.'}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {selectedNode.data.nodeType === 'merge' && (
+            <div>
+              <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Merge Settings
+              </Label>
+              <div className="mt-2 space-y-3">
+                <div>
+                  <Label htmlFor="merge-mode" className="text-sm font-medium text-gray-700">
+                    Mode
+                  </Label>
+                  <Select 
+                    value={selectedNode.data.mode || 'wait-all'} 
+                    onValueChange={(value) => updateNodeData('mode', value)}
+                  >
+                    <SelectTrigger className="mt-1" data-testid="merge-mode-select">
+                      <SelectValue placeholder="Select mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MERGE_MODES.map((mode) => (
+                        <SelectItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {MERGE_MODES.find((mode) => mode.value === (selectedNode.data.mode || 'wait-all'))?.description}
+                  </p>
+                </div>
+
+                {selectedNode.data.mode === 'join' && (
+                  <div>
+                    <Label htmlFor="merge-join-key" className="text-sm font-medium text-gray-700">
+                      Join Key
+                    </Label>
+                    <Input
+                      id="merge-join-key"
+                      value={selectedNode.data.joinKey || ''}
+                      onChange={(e) => updateNodeData('joinKey', e.target.value)}
+                      placeholder="e.g., id"
+                      className="mt-1 font-mono"
+                      data-testid="merge-join-key-input"
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {selectedNode.data.nodeType === 'loop' && (
+            <div>
+              <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Loop Settings
+              </Label>
+              <div className="mt-2 space-y-3">
+                <div>
+                  <Label htmlFor="loop-items" className="text-sm font-medium text-gray-700">
+                    Items
+                  </Label>
+                  <Input
+                    id="loop-items"
+                    value={selectedNode.data.items || ''}
+                    onChange={(e) => updateNodeData('items', e.target.value)}
+                    placeholder="{{ csv-loader-1.rows }}"
+                    className="mt-1 font-mono"
+                    data-testid="loop-items-input"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    An array, e.g. CSV rows or search results. The item branch gets {'{{ item }}'} and {'{{ index }}'}.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="loop-batch-size" className="text-sm font-medium text-gray-700">
+                      Batch Size
+                    </Label>
+                    <Input
+                      id="loop-batch-size"
+                      type="number"
+                      min={1}
+                      value={selectedNode.data.batchSize ?? 1}
+                      onChange={(e) => updateNodeData('batchSize', parseInt(e.target.value) || 1)}
+                      className="mt-1"
+                      data-testid="loop-batch-size-input"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="loop-concurrency" className="text-sm font-medium text-gray-700">
+                      Concurrency
+                    </Label>
+                    <Input
+                      id="loop-concurrency"
+                      type="number"
+                      min={1}
+                      value={selectedNode.data.concurrency ?? 1}
+                      onChange={(e) => updateNodeData('concurrency', parseInt(e.target.value) || 1)}
+                      className="mt-1"
+                      data-testid="loop-concurrency-input"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  With a batch size above 1 the item branch gets {'{{ items }}'} instead. The done output receives every result and error.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {selectedNode.data.nodeType === 'execute-workflow' && (
+            <div>
+              <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Sub-workflow Settings
+              </Label>
+              <div className="mt-2 space-y-3">
+                <div>
+                  <Label htmlFor="sub-workflow" className="text-sm font-medium text-gray-700">
+                    Workflow
+                  </Label>
+                  <Select
+                    value={selectedNode.data.workflowId || ''}
+                    onValueChange={(value) => onNodeUpdate(selectedNode.id, {
+                      workflowId: value,
+                      workflowName: workflows.find((workflow) => workflow.id === value)?.name,
+                    })}
+                  >
+                    <SelectTrigger id="sub-workflow" className="mt-1" data-testid="sub-workflow-select">
+                      <SelectValue placeholder="Select workflow" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workflows
+                        .filter((workflow) => workflow.id !== workflowId)
+                        .map((workflow) => (
+                          <SelectItem key={workflow.id} value={workflow.id}>
+                            {workflow.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label className="text-sm font-medium text-gray-700">
+                    Input Mapping
+                  </Label>
+                  <KeyValueEditor
+                    value={selectedNode.data.inputMapping || {}}
+                    onChange={(value) => updateNodeData('inputMapping', value)}
+                    keyPlaceholder="field"
+                    valuePlaceholder="{{ node-id.field }}"
+                    testIdPrefix="input-mapping"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Becomes the sub-workflow's input. Without fields, this node's input is passed through.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {selectedNode.data.nodeType === 'email' && (
             <div>
               <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
@@ -756,6 +1465,134 @@ export function PropertiesPanel({
             </div>
           )}
 
+          {/* Error Handling */}
+          <div>
+            <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+              Error Handling
+            </Label>
+            <div className="mt-2 space-y-3">
+              <div className="flex items-center space-x-3">
+                <Switch
+                  id="error-handling"
+                  checked={!!selectedNode.data.continueOnError}
+                  onCheckedChange={(checked) => updateNodeData('continueOnError', checked)}
+                  data-testid="error-handling-switch"
+                />
+                <Label htmlFor="error-handling" className="text-sm text-gray-700">
+                  Continue on error
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Failures are sent to the node's error output instead of stopping the workflow
+              </p>
+
+              <div>
+                <Label htmlFor="node-timeout" className="text-sm font-medium text-gray-700">
+                  Timeout (seconds)
+                </Label>
+                <Input
+                  id="node-timeout"
+                  type="number"
+                  min={0}
+                  value={selectedNode.data.timeoutSeconds ?? ''}
+                  onChange={(e) => updateNodeData('timeoutSeconds', e.target.value ? Math.max(0, parseFloat(e.target.value)) : undefined)}
+                  placeholder="No limit"
+                  className="mt-1"
+                  data-testid="node-timeout-input"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Retry Policy */}
+          <div>
+            <Label className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+              Retry Settings
+            </Label>
+            <div className="mt-2 space-y-3">
+              <div>
+                <Label htmlFor="retry-max-attempts" className="text-sm font-medium text-gray-700">
+                  Max Attempts
+                </Label>
+                <Input
+                  id="retry-max-attempts"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={retryPolicy.maxAttempts}
+                  onChange={(e) => updateRetryPolicy({ maxAttempts: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  className="mt-1"
+                  data-testid="retry-max-attempts-input"
+                />
+              </div>
+
+              {retryPolicy.maxAttempts > 1 && (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="retry-backoff-base" className="text-sm font-medium text-gray-700">
+                        Backoff (ms)
+                      </Label>
+                      <Input
+                        id="retry-backoff-base"
+                        type="number"
+                        min={0}
+                        value={retryPolicy.backoffBaseMs}
+                        onChange={(e) => updateRetryPolicy({ backoffBaseMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className="mt-1"
+                        data-testid="retry-backoff-base-input"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="retry-backoff-cap" className="text-sm font-medium text-gray-700">
+                        Max Backoff (ms)
+                      </Label>
+                      <Input
+                        id="retry-backoff-cap"
+                        type="number"
+                        min={0}
+                        value={retryPolicy.backoffCapMs}
+                        onChange={(e) => updateRetryPolicy({ backoffCapMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className="mt-1"
+                        data-testid="retry-backoff-cap-input"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-3">
+                    <Switch
+                      id="retry-jitter"
+                      checked={retryPolicy.jitter}
+                      onCheckedChange={(checked) => updateRetryPolicy({ jitter: checked })}
+                      data-testid="retry-jitter-switch"
+                    />
+                    <Label htmlFor="retry-jitter" className="text-sm text-gray-700">
+                      Randomize delay (jitter)
+                    </Label>
+                  </div>
+
+                  <div>
+                    <Label className="text-sm font-medium text-gray-700">Retry On</Label>
+                    <div className="mt-1 space-y-2">
+                      {RETRY_ERROR_CLASSES.map((errorClass) => (
+                        <div key={errorClass.value} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`retry-on-${errorClass.value}`}
+                            checked={retryPolicy.retryOn.includes(errorClass.value)}
+                            onCheckedChange={(checked) => toggleRetryErrorClass(errorClass.value, checked === true)}
+                          />
+                          <Label htmlFor={`retry-on-${errorClass.value}`} className="text-sm text-gray-700">
+                            {errorClass.label}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
           <Separator />
 
           {/* Actions */}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import type { NodeStatus } from '@shared/schema';
+
+interface ExecutionEventMessage {
+  type: string;
+  executionId: string;
+  nodeId?: string;
+  status?: string;
+  error?: string | null;
+  nodeStates?: Record<string, NodeStatus>;
+}
+
+// Subscribes to GET /api/executions/:id/events and tracks per-node status as the run progresses
+export function useExecutionEvents(executionId: string | null) {
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [nodeStatuses, setNodeStatuses] = useState<Record<string, NodeStatus>>({});
+
+  useEffect(() => {
+    if (!executionId) return;
+
+    setStatus('running');
+    setError(null);
+    setNodeStatuses({});
+
+    // EventSource cannot send the Authorization header, so the token goes in the query string
+    const token = localStorage.getItem('auth_token');
+    const query = token ? `?access_token=${encodeURIComponent(token)}` : '';
+    const source = new EventSource(`/api/executions/${executionId}/events${query}`);
+    const setNodeStatus = (nodeId: string, nodeStatus: NodeStatus) => {
+      setNodeStatuses((current) => ({ ...current, [nodeId]: nodeStatus }));
+    };
+
+    source.onmessage = (message) => {
+      const event: ExecutionEventMessage = JSON.parse(message.data);
+
+      switch (event.type) {
+        case 'node.started':
+        case 'node.retrying':
+          setNodeStatus(event.nodeId!, 'running');
+          break;
+        case 'node.completed':
+          setNodeStatus(event.nodeId!, 'completed');
+          break;
+        case 'node.failed':
+          setNodeStatus(event.nodeId!, 'failed');
+          break;
+        case 'node.skipped':
+          setNodeStatus(event.nodeId!, 'skipped');
+          break;
+        case 'node.cancelled':
+          setNodeStatus(event.nodeId!, event.status === 'timed_out' ? 'timed_out' : 'cancelled');
+          break;
+        case 'execution.finished':
+          setNodeStatuses((current) => ({ ...current, ...event.nodeStates }));
+          setError(event.error || null);
+          setStatus(event.status || 'completed');
+          // The server ends the stream here; closing stops EventSource from reconnecting
+          source.close();
+          break;
+      }
+    };
+
+    return () => source.close();
+  }, [executionId]);
+
+  return { status, error, nodeStatuses };
+}
@@ -1,3 +1,5 @@
+import type { RetryPolicy } from '@shared/schema';
+
 export const NODE_TYPES = {
   // Input Nodes
   webhook: {
@@ -8,7 +10,8 @@ export const NODE_TYPES = {
     defaultData: {
       method: 'POST',
       path: '/webhook',
-      authentication: 'none'
+      authentication: 'none',
+      responseMode: 'onReceived'
     }
   },
   manual: {
@@ -24,8 +27,10 @@ export const NODE_TYPES = {
     category: 'inputs',
     color: 'blue',
     defaultData: {
+      mode: 'cron',
       cron: '0 9 * * *',
-      timezone: 'UTC'
+      timezone: 'UTC',
+      intervalSeconds: 3600
     }
   },
 
@@ -90,14 +95,48 @@ export const NODE_TYPES = {
       condition: 'input.value > 0'
     }
   },
+  switch: {
+    label: 'Switch',
+    description: 'Route to one of several named outputs',
+    category: 'processing',
+    color: 'emerald',
+    defaultData: {
+      mode: 'rules',
+      value: '{{input}}',
+      rules: [
+        { id: 'output-1', name: 'Output 1', operator: 'equals', value: '' }
+      ]
+    }
+  },
   merge: {
     label: 'Merge',
     description: 'Combine multiple data streams',
     category: 'processing',
     color: 'emerald',
     defaultData: {
-      strategy: 'merge',
-      waitForAll: true
+      mode: 'wait-all',
+      joinKey: ''
+    }
+  },
+  loop: {
+    label: 'Loop',
+    description: 'Run a branch once for each item in a list',
+    category: 'processing',
+    color: 'emerald',
+    defaultData: {
+      items: '',
+      batchSize: 1,
+      concurrency: 1
+    }
+  },
+  'execute-workflow': {
+    label: 'Execute Workflow',
+    description: 'Run another saved workflow as a step',
+    category: 'processing',
+    color: 'emerald',
+    defaultData: {
+      workflowId: '',
+      inputMapping: {}
     }
   },
 
@@ -125,7 +164,10 @@ export const NODE_TYPES = {
     color: 'red',
     defaultData: {
       statusCode: 200,
-      responseData: '{"status": "success"}'
+      bodyType: 'json',
+      headers: {},
+      responseData: '{"status": "success"}',
+      respondImmediately: false
     }
   },
 
@@ -243,3 +285,55 @@ export const NODE_TYPES = {
 } as const;
 
 export type NodeTypeKey = keyof typeof NODE_TYPES;
+
+export const MERGE_MODES = [
+  { value: 'wait-all', label: 'Wait for all', description: 'Run once every connected branch has finished' },
+  { value: 'wait-any', label: 'First arrival', description: 'Continue with the first branch to finish' },
+  { value: 'append', label: 'Append', description: 'Concatenate the array outputs of every branch' },
+  { value: 'join', label: 'Join by key', description: 'Combine records from every branch that share a key field' },
+] as const;
+
+export const WEBHOOK_METHODS = ['ANY', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+export const WEBHOOK_AUTHENTICATION = [
+  { value: 'none', label: 'None' },
+  { value: 'header', label: 'Shared secret header' },
+  { value: 'hmac', label: 'HMAC-SHA256 signature' },
+] as const;
+
+export const WEBHOOK_RESPONSE_MODES = [
+  { value: 'onReceived', label: 'Immediately', description: 'Reply 202 with the execution id and run in the background' },
+  { value: 'lastNode', label: 'When finished', description: 'Wait for the workflow and reply with its output' },
+  { value: 'responseNode', label: 'Using Webhook Response node', description: 'Reply with the status, headers and body set by a Webhook Response node' },
+] as const;
+
+export const SCHEDULE_MODES = [
+  { value: 'cron', label: 'Cron expression' },
+  { value: 'interval', label: 'Fixed interval' },
+] as const;
+
+export const SWITCH_OPERATORS = [
+  { value: 'equals', label: 'Equals' },
+  { value: 'contains', label: 'Contains' },
+  { value: 'regex', label: 'Matches regex' },
+  { value: 'range', label: 'Number between' },
+] as const;
+
+// Output handle taken when no switch rule matches
+export const SWITCH_DEFAULT_OUTPUT = { id: 'default', name: 'Default' };
+
+// Mirrors the RetryPolicySchema defaults in shared/schema.ts
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  backoffBaseMs: 1000,
+  backoffCapMs: 30000,
+  jitter: true,
+  retryOn: ['rate_limit', 'timeout', 'network', 'server_error'],
+};
+
+export const RETRY_ERROR_CLASSES = [
+  { value: 'rate_limit', label: 'Rate limits' },
+  { value: 'timeout', label: 'Timeouts' },
+  { value: 'network', label: 'Network errors' },
+  { value: 'server_error', label: 'Server errors' },
+] as const;
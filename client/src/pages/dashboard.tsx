@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -22,9 +23,12 @@ import {
   ArrowRight,
   Workflow,
   Key,
-  Shield
+  Shield,
+  Upload
 } from 'lucide-react';
 import { useLocation } from 'wouter';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
 
 interface WorkflowStats {
   total: number;
@@ -62,6 +66,36 @@ export default function DashboardPage() {
   ]);
 
   const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Bundles come from GET /api/workflows/:id/export on this or another instance
+  const importWorkflowMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const bundle = JSON.parse(await file.text());
+      const response = await apiRequest('POST', '/api/workflows/import', bundle);
+      return response.json();
+    },
+    onSuccess: (imported: { workflow: { id: string; name: string }; credentials: Array<{ filled: boolean }> }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows'] });
+      const missing = imported.credentials.filter((credential) => !credential.filled).length;
+      toast({
+        title: "Workflow imported",
+        description: missing > 0
+          ? `${imported.workflow.name} needs ${missing} credential${missing === 1 ? '' : 's'} filled in before publishing`
+          : `${imported.workflow.name} is ready to publish`,
+      });
+      navigate(`/workflow/${imported.workflow.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error instanceof SyntaxError ? "The file is not valid JSON" : error.message || "Failed to import workflow",
+        variant: "destructive",
+      });
+    }
+  });
 
   const quickActions: QuickAction[] = [
     {
@@ -308,9 +342,31 @@ export default function DashboardPage() {
                 <p className="text-muted-foreground mb-4">
                   View, edit, and manage all your workflows in one place
                 </p>
-                <Button onClick={() => navigate('/workflow-builder')}>
-                  Go to Workflow Builder
-                </Button>
+                <div className="flex items-center justify-center gap-2">
+                  <Button onClick={() => navigate('/workflow-builder')}>
+                    Go to Workflow Builder
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={importWorkflowMutation.isPending}
+                    data-testid="button-import-workflow"
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import Workflow
+                  </Button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importWorkflowMutation.mutate(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </div>
               </div>
             </CardContent>
           </Card>
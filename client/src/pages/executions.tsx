@@ -4,10 +4,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
 import { 
   Search, 
   Filter, 
-  Play, 
+  Square, 
+  Ban, 
+  Timer, 
   Clock, 
   CheckCircle, 
   XCircle, 
@@ -27,7 +31,7 @@ import {
 interface Execution {
   id: string;
   workflowName: string;
-  status: 'completed' | 'failed' | 'running' | 'pending';
+  status: 'completed' | 'failed' | 'running' | 'pending' | 'cancelled' | 'timed_out';
   startTime: string;
   endTime?: string;
   duration?: number;
@@ -100,6 +104,22 @@ export default function ExecutionsPage() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [dateFilter, setDateFilter] = useState<string>('all');
   const [selectedExecution, setSelectedExecution] = useState<Execution | null>(null);
+  const { toast } = useToast();
+
+  const cancelExecution = async (executionId: string) => {
+    try {
+      await apiRequest('POST', `/api/executions/${executionId}/cancel`);
+      setExecutions(current => current.map(execution =>
+        execution.id === executionId ? { ...execution, status: 'cancelled' } : execution
+      ));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel execution",
+        variant: "destructive",
+      });
+    }
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -107,6 +127,8 @@ export default function ExecutionsPage() {
       case 'failed': return 'bg-red-100 text-red-800';
       case 'running': return 'bg-blue-100 text-blue-800';
       case 'pending': return 'bg-yellow-100 text-yellow-800';
+      case 'cancelled': return 'bg-gray-100 text-gray-600';
+      case 'timed_out': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -117,6 +139,8 @@ export default function ExecutionsPage() {
       case 'failed': return <XCircle className="h-4 w-4" />;
       case 'running': return <RefreshCw className="h-4 w-4 animate-spin" />;
       case 'pending': return <Clock className="h-4 w-4" />;
+      case 'cancelled': return <Ban className="h-4 w-4" />;
+      case 'timed_out': return <Timer className="h-4 w-4" />;
       default: return <AlertCircle className="h-4 w-4" />;
     }
   };
@@ -269,6 +293,8 @@ export default function ExecutionsPage() {
               <option value="failed">Failed</option>
               <option value="running">Running</option>
               <option value="pending">Pending</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="timed_out">Timed Out</option>
             </select>
 
             <select
@@ -330,7 +356,7 @@ export default function ExecutionsPage() {
                     <td className="p-3">
                       <Badge className={getStatusColor(execution.status)}>
                         {getStatusIcon(execution.status)}
-                        <span className="ml-1 capitalize">{execution.status}</span>
+                        <span className="ml-1 capitalize">{execution.status.replace('_', ' ')}</span>
                       </Badge>
                     </td>
                     <td className="p-3">
@@ -373,9 +399,14 @@ export default function ExecutionsPage() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        {execution.status === 'running' && (
-                          <Button variant="ghost" size="sm">
-                            <Play className="h-4 w-4" />
+                        {(execution.status === 'running' || execution.status === 'pending') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => cancelExecution(execution.id)}
+                            title="Stop execution"
+                          >
+                            <Square className="h-4 w-4" />
                           </Button>
                         )}
                         <Button variant="ghost" size="sm">
@@ -431,7 +462,7 @@ export default function ExecutionsPage() {
                 <label className="text-sm font-medium">Status</label>
                 <Badge className={`mt-1 ${getStatusColor(selectedExecution.status)}`}>
                   {getStatusIcon(selectedExecution.status)}
-                  <span className="ml-1 capitalize">{selectedExecution.status}</span>
+                  <span className="ml-1 capitalize">{selectedExecution.status.replace('_', ' ')}</span>
                 </Badge>
               </div>
               <div>
@@ -1,6 +1,6 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useParams } from 'wouter';
+import { useParams, useLocation } from 'wouter';
 import ReactFlow, { 
   Node, 
   Edge, 
@@ -20,15 +20,18 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import { useExecutionEvents } from '@/hooks/use-execution-events';
 import { apiRequest } from '@/lib/queryClient';
 import { NodeLibrary } from '@/components/workflow/node-library';
 import { PropertiesPanel } from '@/components/workflow/properties-panel';
 import { CustomNode } from '@/components/workflow/custom-node';
 import { LangChainNode } from '@/components/workflow/langchain-node';
 import { TemplateModal } from '@/components/ui/template-modal';
+import { VersionHistoryModal } from '@/components/ui/version-history-modal';
+import { SaveTemplateModal } from '@/components/ui/save-template-modal';
 import { NODE_TYPES } from '@/lib/node-types';
 import { LANGCHAIN_NODE_TYPES } from '@/lib/langchain-node-types';
-import { type Workflow, type WorkflowNode, type WorkflowEdge } from '@shared/schema';
+import { type Workflow, type WorkflowNode, type WorkflowEdge, type WorkflowSettings, type WorkflowValidationProblem, type WorkflowVersion, type WorkflowTemplate } from '@shared/schema';
 
 const nodeTypes = {
   customNode: CustomNode,
@@ -41,10 +44,29 @@ const nodeTypes = {
   )
 };
 
+function summarizeProblems(problems: WorkflowValidationProblem[]): string {
+  return problems.length === 1
+    ? problems[0].message
+    : `${problems.length} problems found: ${problems.map((problem) => problem.message).slice(0, 3).join('; ')}`;
+}
+
+// apiRequest reports an error response as "<status>: <body>"; the activate endpoint answers 422 with the problems
+function getActivationProblems(error: unknown): WorkflowValidationProblem[] | undefined {
+  const match = error instanceof Error ? /^422: ([\s\S]*)$/.exec(error.message) : null;
+  if (!match) return undefined;
+  try {
+    const body = JSON.parse(match[1]);
+    return Array.isArray(body.problems) ? body.problems : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export default function WorkflowBuilder() {
   const { id: workflowId } = useParams();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<any>(null);
   
@@ -52,8 +74,14 @@ export default function WorkflowBuilder() {
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
   const [workflowName, setWorkflowName] = useState('New Workflow');
+  const [workflowSettings, setWorkflowSettings] = useState<WorkflowSettings>({});
   const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
   const [executionStatus, setExecutionStatus] = useState<string>('Ready');
+  const [activeExecutionId, setActiveExecutionId] = useState<string | null>(null);
+  const { status: liveStatus, error: liveError, nodeStatuses } = useExecutionEvents(activeExecutionId);
+  const [validationProblems, setValidationProblems] = useState<WorkflowValidationProblem[]>([]);
   const [leftSidebarOpen, setLeftSidebarOpen] = useState(true);
   const [rightSidebarOpen, setRightSidebarOpen] = useState(true);
 
@@ -62,12 +90,22 @@ export default function WorkflowBuilder() {
     queryKey: ['/api/workflows', workflowId],
     enabled: !!workflowId,
   });
+  const isActive = !!(workflow as Workflow | undefined)?.isActive;
+  const publishedVersion = (workflow as Workflow | undefined)?.publishedVersion ?? null;
+
+  // Saves that change nothing add no version, so a newer version than the published one means unpublished edits
+  const { data: versions = [] } = useQuery<WorkflowVersion[]>({
+    queryKey: ['/api/workflows', workflowId, 'versions'],
+    enabled: !!workflowId,
+  });
+  const hasUnpublishedChanges = publishedVersion !== null && !!versions[0] && versions[0].version !== publishedVersion;
 
   // Handle workflow loading success
   React.useEffect(() => {
     if (workflow) {
       const workflowData = workflow as Workflow;
       setWorkflowName(workflowData.name);
+      setWorkflowSettings((workflowData.settings as WorkflowSettings) || {});
       setNodes(workflowData.nodes as Node[] || []);
       setEdges(workflowData.edges as Edge[] || []);
     }
@@ -98,28 +136,161 @@ export default function WorkflowBuilder() {
     }
   });
 
-  // Execute workflow mutation
+  // Execute workflow mutation - runs asynchronously and reports progress over the event stream
   const executeWorkflowMutation = useMutation({
     mutationFn: async (input: any) => {
       if (!workflowId) throw new Error('No workflow ID');
-      return apiRequest('POST', `/api/workflows/${workflowId}/execute`, input);
+      const response = await apiRequest('POST', `/api/workflows/${workflowId}/execute?mode=async`, input);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (execution: { id: string }) => {
+      setActiveExecutionId(execution.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to execute workflow",
+        variant: "destructive",
+      });
+      setExecutionStatus('Failed');
+    }
+  });
+
+  const cancelExecutionMutation = useMutation({
+    mutationFn: async (executionId: string) => {
+      const response = await apiRequest('POST', `/api/executions/${executionId}/cancel`);
+      return response.json();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel execution",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Publishing saves the canvas first so the draft that is validated and published is the one on screen
+  const publishMutation = useMutation({
+    mutationFn: async (): Promise<{ problems: WorkflowValidationProblem[]; version?: number }> => {
+      if (!workflowId) throw new Error('No workflow ID');
+
+      await apiRequest('PUT', `/api/workflows/${workflowId}`, getWorkflowData());
+      const validation = await apiRequest('GET', `/api/workflows/${workflowId}/validation`);
+      const { problems } = await validation.json();
+      if (problems.length > 0) return { problems };
+
+      const response = await apiRequest('POST', `/api/workflows/${workflowId}/publish`);
+      const { version } = await response.json();
+      return { problems: [], version: version.version };
+    },
+    onSuccess: ({ problems, version }) => {
+      setValidationProblems(problems);
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows'] });
+
+      if (problems.length > 0) {
+        toast({
+          title: "Workflow not published",
+          description: summarizeProblems(problems),
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Published",
+          description: `Version ${version} is now what webhooks and schedules run`,
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to publish workflow",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (activate: boolean): Promise<{ problems: WorkflowValidationProblem[] }> => {
+      if (!workflowId) throw new Error('No workflow ID');
+      try {
+        await apiRequest('POST', `/api/workflows/${workflowId}/${activate ? 'activate' : 'deactivate'}`);
+        return { problems: [] };
+      } catch (error) {
+        const problems = getActivationProblems(error);
+        if (!problems) throw error;
+        return { problems };
+      }
+    },
+    onSuccess: ({ problems }, activate) => {
+      setValidationProblems(problems);
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows'] });
+
+      if (problems.length > 0) {
+        toast({
+          title: "Workflow not activated",
+          description: summarizeProblems(problems),
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: activate ? "Activated" : "Deactivated",
+        description: activate
+          ? "Webhooks and schedules are now live"
+          : "Webhooks and schedules are stopped",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change workflow activation",
+        variant: "destructive",
+      });
+    }
+  });
+
+  React.useEffect(() => {
+    if (liveStatus === 'completed') {
       toast({
         title: "Success",
         description: "Workflow executed successfully",
       });
       setExecutionStatus('Completed');
-    },
-    onError: (error: any) => {
+    } else if (liveStatus === 'failed') {
       toast({
         title: "Error",
-        description: error.message || "Failed to execute workflow",
+        description: liveError || "Failed to execute workflow",
         variant: "destructive",
       });
       setExecutionStatus('Failed');
+    } else if (liveStatus === 'timed_out') {
+      toast({
+        title: "Timed out",
+        description: liveError || "Workflow execution timed out",
+        variant: "destructive",
+      });
+      setExecutionStatus('Timed Out');
+    } else if (liveStatus === 'cancelled') {
+      toast({
+        title: "Cancelled",
+        description: "Workflow execution was cancelled",
+      });
+      setExecutionStatus('Cancelled');
     }
-  });
+  }, [liveStatus, liveError, toast]);
+
+  // Highlight each node with its live execution status and validation problems without touching the saved node data
+  const displayedNodes = React.useMemo(
+    () => nodes.map((node) => {
+      const problems = validationProblems.filter((problem) => problem.nodeId === node.id);
+      const displayed = problems.length > 0 ? { ...node, data: { ...node.data, validationProblems: problems } } : node;
+      return nodeStatuses[node.id]
+        ? { ...displayed, className: `node-status-${nodeStatuses[node.id]}` }
+        : displayed;
+    }),
+    [nodes, nodeStatuses, validationProblems]
+  );
 
   const onConnect = useCallback(
     (params: Connection) => setEdges((eds) => addEdge(params, eds)),
@@ -174,18 +345,17 @@ export default function WorkflowBuilder() {
     setSelectedNode(null);
   }, []);
 
+  const getWorkflowData = () => ({
+    name: workflowName,
+    description: `AI workflow with ${nodes.length} nodes`,
+    nodes: nodes as WorkflowNode[],
+    edges: edges as WorkflowEdge[],
+    settings: workflowSettings,
+  });
+
   const handleSave = useCallback(() => {
-    const workflowData = {
-      name: workflowName,
-      description: `AI workflow with ${nodes.length} nodes`,
-      nodes: nodes as WorkflowNode[],
-      edges: edges as WorkflowEdge[],
-      settings: {},
-      isActive: true,
-    };
-
-    saveWorkflowMutation.mutate(workflowData);
-  }, [workflowName, nodes, edges, saveWorkflowMutation]);
+    saveWorkflowMutation.mutate(getWorkflowData());
+  }, [workflowName, workflowSettings, nodes, edges, saveWorkflowMutation]);
 
   const handleExecute = useCallback(() => {
     if (!workflowId) {
@@ -202,6 +372,8 @@ export default function WorkflowBuilder() {
   }, [workflowId, executeWorkflowMutation, toast]);
 
   const handleNodeUpdate = useCallback((nodeId: string, updates: any) => {
+    // The node's problems are re-checked on the next activation
+    setValidationProblems((problems) => problems.filter((problem) => problem.nodeId !== nodeId));
     setNodes((nds) => 
       nds.map((node) => 
         node.id === nodeId 
@@ -217,20 +389,52 @@ export default function WorkflowBuilder() {
     setSelectedNode(null);
   }, [setNodes, setEdges]);
 
-  const handleTemplateLoad = useCallback((template: any) => {
-    setWorkflowName(template.name);
-    setNodes(template.nodes.map((node: any) => ({
-      ...node,
-      type: 'customNode',
-    })));
-    setEdges(template.edges);
-    setIsTemplateModalOpen(false);
-    
-    toast({
-      title: "Success",
-      description: "Template loaded successfully",
-    });
-  }, [setNodes, setEdges, toast]);
+  // Downloads the bundle that POST /api/workflows/import accepts on another instance
+  const handleExport = useCallback(async () => {
+    try {
+      const response = await apiRequest('GET', `/api/workflows/${workflowId}/export`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${workflowName.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'workflow'}.workflow.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export workflow",
+        variant: "destructive",
+      });
+    }
+  }, [workflowId, workflowName, toast]);
+
+  // Templates are turned into a new workflow on the server, with fresh node ids
+  const instantiateTemplateMutation = useMutation({
+    mutationFn: async (template: WorkflowTemplate) => {
+      const response = await apiRequest('POST', `/api/templates/${template.id}/instantiate`);
+      return response.json();
+    },
+    onSuccess: (created: Workflow) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows'] });
+      setIsTemplateModalOpen(false);
+      toast({
+        title: "Success",
+        description: `Created ${created.name} from template`,
+      });
+      navigate(`/workflow/${created.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create workflow from template",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleTemplateLoad = useCallback((template: WorkflowTemplate) => {
+    instantiateTemplateMutation.mutate(template);
+  }, [instantiateTemplateMutation]);
 
   if (isLoading) {
     return <div className="flex items-center justify-center h-screen">Loading...</div>;
@@ -278,6 +482,15 @@ export default function WorkflowBuilder() {
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
               <span className="text-xs text-gray-500" data-testid="save-status">Saved</span>
             </div>
+            {workflowId && (
+              <Badge variant={hasUnpublishedChanges || publishedVersion === null ? 'outline' : 'secondary'} data-testid="publish-status">
+                {publishedVersion === null
+                  ? 'Draft'
+                  : hasUnpublishedChanges
+                    ? `Unpublished changes (live: v${publishedVersion})`
+                    : `Published v${publishedVersion}`}
+              </Badge>
+            )}
           </div>
           
           <div className="flex items-center space-x-2">
@@ -290,14 +503,93 @@ export default function WorkflowBuilder() {
             >
               Save
             </Button>
+            {workflowId && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => setIsHistoryOpen(true)}
+                data-testid="button-history"
+              >
+                History
+              </Button>
+            )}
+            {workflowId && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={handleExport}
+                data-testid="button-export"
+              >
+                Export
+              </Button>
+            )}
+            {workflowId && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => setIsSaveTemplateOpen(true)}
+                data-testid="button-save-as-template"
+              >
+                Save as Template
+              </Button>
+            )}
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => {
+                if (!workflowId) {
+                  toast({
+                    title: "Error",
+                    description: "Please save the workflow before publishing it",
+                    variant: "destructive",
+                  });
+                  return;
+                }
+                publishMutation.mutate();
+              }}
+              disabled={publishMutation.isPending}
+              data-testid="button-publish"
+            >
+              Publish
+            </Button>
+            <Button 
+              variant={isActive ? 'secondary' : 'outline'}
+              size="sm" 
+              onClick={() => {
+                if (!workflowId || (publishedVersion === null && !isActive)) {
+                  toast({
+                    title: "Error",
+                    description: "Please publish the workflow before activating it",
+                    variant: "destructive",
+                  });
+                  return;
+                }
+                toggleActiveMutation.mutate(!isActive);
+              }}
+              disabled={toggleActiveMutation.isPending}
+              data-testid="button-toggle-active"
+            >
+              {isActive ? 'Deactivate' : 'Activate'}
+            </Button>
             <Button 
               size="sm" 
               onClick={handleExecute}
-              disabled={executeWorkflowMutation.isPending}
+              disabled={executeWorkflowMutation.isPending || executionStatus === 'Running'}
               data-testid="button-execute"
             >
-              {executeWorkflowMutation.isPending ? 'Running...' : 'Execute'}
+              {executeWorkflowMutation.isPending || executionStatus === 'Running' ? 'Running...' : 'Execute'}
             </Button>
+            {executionStatus === 'Running' && activeExecutionId && (
+              <Button 
+                variant="destructive" 
+                size="sm" 
+                onClick={() => cancelExecutionMutation.mutate(activeExecutionId)}
+                disabled={cancelExecutionMutation.isPending}
+                data-testid="button-stop"
+              >
+                Stop
+              </Button>
+            )}
           </div>
 
           <div className="flex items-center space-x-2">
@@ -305,7 +597,7 @@ export default function WorkflowBuilder() {
               variant={
                 executionStatus === 'Running' ? 'default' :
                 executionStatus === 'Completed' ? 'default' :
-                executionStatus === 'Failed' ? 'destructive' : 
+                executionStatus === 'Failed' || executionStatus === 'Timed Out' ? 'destructive' : 
                 'secondary'
               }
               data-testid="execution-status"
@@ -314,6 +606,8 @@ export default function WorkflowBuilder() {
                 executionStatus === 'Running' ? 'bg-yellow-500 animate-pulse' :
                 executionStatus === 'Completed' ? 'bg-green-500' :
                 executionStatus === 'Failed' ? 'bg-red-500' :
+                executionStatus === 'Timed Out' ? 'bg-orange-500' :
+                executionStatus === 'Cancelled' ? 'bg-gray-400' :
                 'bg-green-500'
               }`}></div>
               {executionStatus}
@@ -333,7 +627,7 @@ export default function WorkflowBuilder() {
         {/* Main Canvas */}
         <div className="flex-1 relative" ref={reactFlowWrapper} data-testid="workflow-canvas">
           <ReactFlow
-            nodes={nodes}
+            nodes={displayedNodes}
             edges={edges}
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
@@ -382,8 +676,11 @@ export default function WorkflowBuilder() {
               selectedNode={selectedNode}
               onNodeUpdate={handleNodeUpdate}
               onNodeDelete={handleNodeDelete}
+              workflowId={workflowId}
               workflowName={workflowName}
               onWorkflowNameChange={setWorkflowName}
+              workflowSettings={workflowSettings}
+              onWorkflowSettingsChange={setWorkflowSettings}
             />
           </div>
         )}
@@ -395,6 +692,24 @@ export default function WorkflowBuilder() {
         onOpenChange={setIsTemplateModalOpen}
         onTemplateSelect={handleTemplateLoad}
       />
+
+      {workflowId && (
+        <VersionHistoryModal
+          workflowId={workflowId}
+          publishedVersion={publishedVersion}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+        />
+      )}
+
+      {workflowId && (
+        <SaveTemplateModal
+          workflowId={workflowId}
+          workflowName={workflowName}
+          open={isSaveTemplateOpen}
+          onOpenChange={setIsSaveTemplateOpen}
+        />
+      )}
     </div>
   );
 }
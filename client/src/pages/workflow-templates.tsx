@@ -1,21 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   Search, 
-  Filter, 
   Grid3X3, 
   List, 
   Play, 
-  Download, 
-  Star, 
   Users, 
-  Clock,
   Zap,
-  Bot,
   MessageSquare,
   FileText,
   Database,
@@ -24,196 +20,64 @@ import {
   Sparkles
 } from 'lucide-react';
 import { useLocation } from 'wouter';
-
-interface WorkflowTemplate {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  difficulty: 'beginner' | 'intermediate' | 'advanced';
-  tags: string[];
-  author: string;
-  rating: number;
-  downloads: number;
-  lastUpdated: string;
-  thumbnail?: string;
-  nodes: number;
-  estimatedTime: string;
-}
-
-const TEMPLATES: WorkflowTemplate[] = [
-  {
-    id: 'customer-support',
-    name: 'Customer Support Agent',
-    description: 'AI agent that handles customer inquiries with sentiment analysis and escalation',
-    category: 'Customer Service',
-    difficulty: 'intermediate',
-    tags: ['customer-support', 'sentiment-analysis', 'escalation', 'automation'],
-    author: 'AgentFlow Team',
-    rating: 4.8,
-    downloads: 1250,
-    lastUpdated: '2024-01-15',
-    nodes: 8,
-    estimatedTime: '15-20 min'
-  },
-  {
-    id: 'content-generator',
-    name: 'Content Generation Workflow',
-    description: 'Generate blog posts, social media content, and marketing materials',
-    category: 'Content Creation',
-    difficulty: 'beginner',
-    tags: ['content-generation', 'blog-writing', 'social-media', 'marketing'],
-    author: 'AgentFlow Team',
-    rating: 4.6,
-    downloads: 890,
-    lastUpdated: '2024-01-10',
-    nodes: 5,
-    estimatedTime: '10-15 min'
-  },
-  {
-    id: 'document-qa',
-    name: 'Document Q&A System',
-    description: 'RAG-based system for answering questions from uploaded documents',
-    category: 'Document Processing',
-    difficulty: 'advanced',
-    tags: ['rag', 'document-processing', 'qa-system', 'vector-store'],
-    author: 'AgentFlow Team',
-    rating: 4.9,
-    downloads: 2100,
-    lastUpdated: '2024-01-20',
-    nodes: 12,
-    estimatedTime: '25-30 min'
-  },
-  {
-    id: 'web-research',
-    name: 'Web Research Agent',
-    description: 'Automated web research and information gathering agent',
-    category: 'Research',
-    difficulty: 'intermediate',
-    tags: ['web-research', 'automation', 'information-gathering', 'data-collection'],
-    author: 'AgentFlow Team',
-    rating: 4.7,
-    downloads: 1560,
-    lastUpdated: '2024-01-18',
-    nodes: 10,
-    estimatedTime: '20-25 min'
-  },
-  {
-    id: 'ai-code-assistant',
-    name: 'AI Code Assistant',
-    description: 'Code review, generation, and optimization using multiple AI models',
-    category: 'Development',
-    difficulty: 'advanced',
-    tags: ['code-generation', 'code-review', 'optimization', 'ai-models'],
-    author: 'AgentFlow Team',
-    rating: 4.9,
-    downloads: 3200,
-    lastUpdated: '2024-01-22',
-    nodes: 15,
-    estimatedTime: '30-35 min'
-  },
-  {
-    id: 'conversational-ai',
-    name: 'Conversational AI Chatbot',
-    description: 'Memory-enabled chatbot with conversation history and context',
-    category: 'Chatbots',
-    difficulty: 'beginner',
-    tags: ['chatbot', 'conversation', 'memory', 'context'],
-    author: 'AgentFlow Team',
-    rating: 4.5,
-    downloads: 2100,
-    lastUpdated: '2024-01-12',
-    nodes: 6,
-    estimatedTime: '12-15 min'
-  },
-  {
-    id: 'data-analysis',
-    name: 'Data Analysis Pipeline',
-    description: 'Automated data processing, analysis, and visualization workflow',
-    category: 'Data Science',
-    difficulty: 'advanced',
-    tags: ['data-analysis', 'processing', 'visualization', 'pipeline'],
-    author: 'AgentFlow Team',
-    rating: 4.8,
-    downloads: 980,
-    lastUpdated: '2024-01-16',
-    nodes: 18,
-    estimatedTime: '35-40 min'
-  },
-  {
-    id: 'email-automation',
-    name: 'Email Automation System',
-    description: 'Automated email processing, classification, and response system',
-    category: 'Communication',
-    difficulty: 'intermediate',
-    tags: ['email', 'automation', 'classification', 'response'],
-    author: 'AgentFlow Team',
-    rating: 4.6,
-    downloads: 1340,
-    lastUpdated: '2024-01-14',
-    nodes: 9,
-    estimatedTime: '18-22 min'
-  }
-];
-
-const CATEGORIES = [
-  'All',
-  'Customer Service',
-  'Content Creation',
-  'Document Processing',
-  'Research',
-  'Development',
-  'Chatbots',
-  'Data Science',
-  'Communication'
-];
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { type Workflow, type WorkflowTemplate } from '@shared/schema';
 
 export default function WorkflowTemplatesPage() {
-  const [templates, setTemplates] = useState<WorkflowTemplate[]>(TEMPLATES);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [sortBy, setSortBy] = useState<'popular' | 'recent' | 'rating'>('popular');
+  const [sortBy, setSortBy] = useState<'recent' | 'name'>('recent');
   const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: allTemplates = [], isLoading } = useQuery<WorkflowTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  const categories = useMemo(
+    () => ['All', ...Array.from(new Set(allTemplates.map(template => template.category))).sort()],
+    [allTemplates]
+  );
 
   // Filter and sort templates
-  useEffect(() => {
-    let filtered = TEMPLATES.filter(template => {
-      const matchesSearch = template.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           template.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           template.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
+  const templates = useMemo(() => {
+    const search = searchTerm.toLowerCase();
+    const filtered = allTemplates.filter(template => {
+      const matchesSearch = template.name.toLowerCase().includes(search) ||
+                           (template.description || '').toLowerCase().includes(search) ||
+                           (template.tags as string[]).some(tag => tag.toLowerCase().includes(search));
       const matchesCategory = selectedCategory === 'All' || template.category === selectedCategory;
       return matchesSearch && matchesCategory;
     });
 
-    // Sort templates
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'popular':
-          return b.downloads - a.downloads;
-        case 'recent':
-          return new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime();
-        case 'rating':
-          return b.rating - a.rating;
-        default:
-          return 0;
-      }
-    });
+    return filtered.sort((a, b) => sortBy === 'name'
+      ? a.name.localeCompare(b.name)
+      : new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }, [allTemplates, searchTerm, selectedCategory, sortBy]);
 
-    setTemplates(filtered);
-  }, [searchTerm, selectedCategory, sortBy]);
+  const instantiateTemplateMutation = useMutation({
+    mutationFn: async (template: WorkflowTemplate) => {
+      const response = await apiRequest('POST', `/api/templates/${template.id}/instantiate`);
+      return response.json();
+    },
+    onSuccess: (workflow: Workflow) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/workflows'] });
+      navigate(`/workflow/${workflow.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create workflow from template",
+        variant: "destructive",
+      });
+    }
+  });
 
   const handleUseTemplate = (template: WorkflowTemplate) => {
-    navigate(`/workflow-builder?template=${template.id}`);
-  };
-
-  const getDifficultyColor = (difficulty: string) => {
-    switch (difficulty) {
-      case 'beginner': return 'bg-green-100 text-green-800';
-      case 'intermediate': return 'bg-yellow-100 text-yellow-800';
-      case 'advanced': return 'bg-red-100 text-red-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
+    instantiateTemplateMutation.mutate(template);
   };
 
   const getCategoryIcon = (category: string) => {
@@ -256,7 +120,7 @@ export default function WorkflowTemplatesPage() {
         <div className="flex items-center gap-4">
           <Tabs value={selectedCategory} onValueChange={setSelectedCategory} className="w-auto">
             <TabsList>
-              {CATEGORIES.map(category => (
+              {categories.map(category => (
                 <TabsTrigger key={category} value={category}>
                   {category}
                 </TabsTrigger>
@@ -286,7 +150,7 @@ export default function WorkflowTemplatesPage() {
       {/* Sort Options */}
       <div className="flex items-center justify-between">
         <p className="text-sm text-muted-foreground">
-          Showing {templates.length} of {TEMPLATES.length} templates
+          Showing {templates.length} of {allTemplates.length} templates
         </p>
         <div className="flex items-center gap-2">
           <span className="text-sm text-muted-foreground">Sort by:</span>
@@ -295,77 +159,68 @@ export default function WorkflowTemplatesPage() {
             onChange={(e) => setSortBy(e.target.value as any)}
             className="border rounded px-2 py-1 text-sm"
           >
-            <option value="popular">Most Popular</option>
             <option value="recent">Recently Updated</option>
-            <option value="rating">Highest Rated</option>
+            <option value="name">Name</option>
           </select>
         </div>
       </div>
 
       {/* Templates Grid/List */}
-      {viewMode === 'grid' ? (
+      {isLoading ? (
+        <div className="text-center py-12 text-muted-foreground">Loading templates...</div>
+      ) : viewMode === 'grid' ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {templates.map((template) => (
-            <Card key={template.id} className="hover:shadow-lg transition-shadow cursor-pointer">
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between">
-                  <div className="flex items-center gap-2">
-                    {getCategoryIcon(template.category)}
-                    <Badge variant="outline" className={getDifficultyColor(template.difficulty)}>
-                      {template.difficulty}
-                    </Badge>
-                  </div>
-                  <div className="flex items-center gap-1 text-yellow-500">
-                    <Star className="h-4 w-4 fill-current" />
-                    <span className="text-sm font-medium">{template.rating}</span>
-                  </div>
-                </div>
-                <CardTitle className="text-lg">{template.name}</CardTitle>
-                <CardDescription className="line-clamp-2">
-                  {template.description}
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                  <div className="flex items-center gap-1">
-                    <Users className="h-3 w-3" />
-                    {template.downloads.toLocaleString()}
+          {templates.map((template) => {
+            const tags = template.tags as string[];
+            return (
+              <Card key={template.id} className="hover:shadow-lg transition-shadow cursor-pointer">
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-2">
+                      {getCategoryIcon(template.category)}
+                      <Badge variant="outline">{template.category}</Badge>
+                    </div>
+                    <Badge variant="secondary" className="text-xs">v{template.version}</Badge>
                   </div>
-                  <div className="flex items-center gap-1">
-                    <Clock className="h-3 w-3" />
-                    {template.estimatedTime}
+                  <CardTitle className="text-lg">{template.name}</CardTitle>
+                  <CardDescription className="line-clamp-2">
+                    {template.description}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <Code className="h-3 w-3" />
+                      {(template.nodes as unknown[]).length} nodes
+                    </div>
                   </div>
-                  <div className="flex items-center gap-1">
-                    <Code className="h-3 w-3" />
-                    {template.nodes} nodes
+                  
+                  <div className="flex flex-wrap gap-1">
+                    {tags.slice(0, 3).map((tag) => (
+                      <Badge key={tag} variant="secondary" className="text-xs">
+                        {tag}
+                      </Badge>
+                    ))}
+                    {tags.length > 3 && (
+                      <Badge variant="secondary" className="text-xs">
+                        +{tags.length - 3} more
+                      </Badge>
+                    )}
                   </div>
-                </div>
-                
-                <div className="flex flex-wrap gap-1">
-                  {template.tags.slice(0, 3).map((tag) => (
-                    <Badge key={tag} variant="secondary" className="text-xs">
-                      {tag}
-                    </Badge>
-                  ))}
-                  {template.tags.length > 3 && (
-                    <Badge variant="secondary" className="text-xs">
-                      +{template.tags.length - 3} more
-                    </Badge>
-                  )}
-                </div>
 
-                <div className="flex items-center justify-between pt-2">
-                  <div className="text-xs text-muted-foreground">
-                    by {template.author} • {new Date(template.lastUpdated).toLocaleDateString()}
+                  <div className="flex items-center justify-between pt-2">
+                    <div className="text-xs text-muted-foreground">
+                      {template.author && <>by {template.author} • </>}{new Date(template.updatedAt).toLocaleDateString()}
+                    </div>
+                    <Button onClick={() => handleUseTemplate(template)} size="sm" disabled={instantiateTemplateMutation.isPending}>
+                      <Play className="h-4 w-4 mr-2" />
+                      Use Template
+                    </Button>
                   </div>
-                  <Button onClick={() => handleUseTemplate(template)} size="sm">
-                    <Play className="h-4 w-4 mr-2" />
-                    Use Template
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       ) : (
         <div className="space-y-4">
@@ -377,23 +232,17 @@ export default function WorkflowTemplatesPage() {
                     <div className="flex items-center gap-3">
                       {getCategoryIcon(template.category)}
                       <h3 className="text-xl font-semibold">{template.name}</h3>
-                      <Badge variant="outline" className={getDifficultyColor(template.difficulty)}>
-                        {template.difficulty}
-                      </Badge>
-                      <div className="flex items-center gap-1 text-yellow-500">
-                        <Star className="h-4 w-4 fill-current" />
-                        <span className="font-medium">{template.rating}</span>
-                      </div>
+                      <Badge variant="outline">{template.category}</Badge>
+                      <Badge variant="secondary" className="text-xs">v{template.version}</Badge>
                     </div>
                     <p className="text-muted-foreground">{template.description}</p>
                     <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                      <span>Downloads: {template.downloads.toLocaleString()}</span>
-                      <span>Nodes: {template.nodes}</span>
-                      <span>Time: {template.estimatedTime}</span>
-                      <span>Updated: {new Date(template.lastUpdated).toLocaleDateString()}</span>
+                      <span>Nodes: {(template.nodes as unknown[]).length}</span>
+                      {template.author && <span>Author: {template.author}</span>}
+                      <span>Updated: {new Date(template.updatedAt).toLocaleDateString()}</span>
                     </div>
                     <div className="flex flex-wrap gap-1">
-                      {template.tags.map((tag) => (
+                      {(template.tags as string[]).map((tag) => (
                         <Badge key={tag} variant="secondary" className="text-xs">
                           {tag}
                         </Badge>
@@ -401,14 +250,10 @@ export default function WorkflowTemplatesPage() {
                     </div>
                   </div>
                   <div className="flex flex-col gap-2 ml-6">
-                    <Button onClick={() => handleUseTemplate(template)}>
+                    <Button onClick={() => handleUseTemplate(template)} disabled={instantiateTemplateMutation.isPending}>
                       <Play className="h-4 w-4 mr-2" />
                       Use Template
                     </Button>
-                    <Button variant="outline" size="sm">
-                      <Download className="h-4 w-4 mr-2" />
-                      Download
-                    </Button>
                   </div>
                 </div>
               </CardContent>
@@ -418,7 +263,7 @@ export default function WorkflowTemplatesPage() {
       )}
 
       {/* Empty State */}
-      {templates.length === 0 && (
+      {!isLoading && templates.length === 0 && (
         <Card className="text-center py-12">
           <CardContent>
             <Search className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -440,10 +285,10 @@ export default function WorkflowTemplatesPage() {
       <div className="text-center py-8 border-t">
         <div className="flex items-center justify-center gap-2 text-muted-foreground mb-2">
           <Sparkles className="h-4 w-4" />
-          <span>More templates coming soon!</span>
+          <span>Build your own templates</span>
         </div>
         <p className="text-sm text-muted-foreground">
-          Can't find what you're looking for? Create your own workflow from scratch or request a custom template.
+          Can't find what you're looking for? Open any saved workflow in the builder and use "Save as Template" to add it here.
         </p>
       </div>
     </div>
@@ -2,9 +2,19 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module 'http' {
+  interface IncomingMessage {
+    // Unparsed request body, kept for webhook signature checks
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+const keepRawBody = (req: Request, _res: Response, buf: Buffer) => {
+  req.rawBody = buf;
+};
+app.use(express.json({ verify: keepRawBody }));
+app.use(express.urlencoded({ extended: false, verify: keepRawBody }));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -40,6 +50,18 @@ app.use((req, res, next) => {
   // Initialize storage system
   const { initializeStorage } = await import("./config/storage");
   await initializeStorage();
+
+  // Add built-in workflow templates missing from the catalog
+  const { seedDefaultTemplates } = await import("./services/template-catalog");
+  await seedDefaultTemplates();
+
+  // Requeue or fail executions the previous process left unfinished
+  const { executionQueue } = await import("./services/execution-queue");
+  await executionQueue.recover();
+
+  // Resume schedule triggers of active workflows
+  const { workflowScheduler } = await import("./services/scheduler");
+  await workflowScheduler.start();
   
   const server = await registerRoutes(app);
 
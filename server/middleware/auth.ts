@@ -64,6 +64,14 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
   }
 }
 
+// Signed-in user of a request that went through requireAuth; owner of what the request creates
+export function getUserId(req: Request): string {
+  if (!req.user) {
+    throw new Error('getUserId needs requireAuth in front of the route');
+  }
+  return req.user.id;
+}
+
 // Optional authentication middleware (doesn't fail if no token)
 export function optionalAuth(req: Request, res: Response, next: NextFunction): void {
   try {
@@ -81,4 +89,13 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction): v
     // Continue without authentication
     next();
   }
-}
\ No newline at end of file
+}
+
+// Authentication for event streams: EventSource cannot set headers, so the token may also be passed
+// as ?access_token=
+export function requireStreamAuth(req: Request, res: Response, next: NextFunction): void {
+  if (typeof req.query.access_token === 'string' && !req.headers.authorization) {
+    req.headers.authorization = `Bearer ${req.query.access_token}`;
+  }
+  requireAuth(req, res, next);
+}
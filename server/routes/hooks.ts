@@ -0,0 +1,137 @@
+import express, { type Express, type Request, type Response } from "express";
+import { getStorage } from "../config/storage";
+import { workflowEngine, type WebhookResponse } from "../services/workflow-engine";
+import { executionQueue } from "../services/execution-queue";
+import { verifyWebhookRequest, getAuthHeaderName, normalizeWebhookPath, type WebhookAuthConfig } from "../services/webhook-auth";
+import { getNodeType } from "../services/workflow-graph";
+import { getPublishedWorkflow } from "../services/workflow-versions";
+import type { Workflow, WorkflowNode, WorkflowEdge, WorkflowSettings } from "@shared/schema";
+
+// Bodies that are neither JSON nor form data arrive as text, so signatures can still be checked
+const parseOtherBodies = express.text({
+  type: () => true,
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+});
+
+function sendWebhookResponse(res: Response, response: WebhookResponse): void {
+  try {
+    res.status(response.statusCode).set(response.headers);
+  } catch (error) {
+    res.status(500).json({ error: "Webhook response has an invalid header" });
+    return;
+  }
+
+  if (response.bodyType === 'text') {
+    if (!res.get('Content-Type')) res.type('text/plain');
+    res.send(response.body == null ? '' : String(response.body));
+  } else {
+    res.json(response.body);
+  }
+}
+
+// The endpoints an active workflow listens on, one per webhook node; pass the published workflow
+export function getWebhookEndpoints(workflow: Workflow): Array<{ nodeId: string; method: string; url: string }> {
+  return (workflow.nodes as WorkflowNode[])
+    .filter(node => getNodeType(node) === 'webhook')
+    .map(node => ({
+      nodeId: node.id,
+      method: String(node.data.method || 'ANY').toUpperCase(),
+      url: `/api/hooks/${workflow.id}/${normalizeWebhookPath(node.data.path || '')}`,
+    }));
+}
+
+export function registerHookRoutes(app: Express): void {
+  // Incoming calls for webhook trigger nodes; any method is accepted and filtered by the node's setting
+  app.all("/api/hooks/:workflowId/:path(*)", parseOtherBodies, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const saved = await storage.getWorkflow(req.params.workflowId);
+      // Inactive workflows are reported as missing so callers cannot probe for them
+      if (!saved || !saved.isActive) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      // Calls run the published version; the draft in the builder only goes live once published
+      const workflow = await getPublishedWorkflow(saved);
+      const version = workflow.publishedVersion ?? undefined;
+
+      const path = normalizeWebhookPath(req.params.path || '');
+      const node = (workflow.nodes as WorkflowNode[]).find(
+        candidate => getNodeType(candidate) === 'webhook' && normalizeWebhookPath(candidate.data.path || '') === path
+      );
+      if (!node) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      const method = String(node.data.method || 'ANY').toUpperCase();
+      if (method !== 'ANY' && method !== req.method) {
+        res.setHeader('Allow', method);
+        return res.status(405).json({ error: `Webhook only accepts ${method}` });
+      }
+
+      const authConfig = node.data as WebhookAuthConfig;
+      const problem = verifyWebhookRequest(authConfig, req.headers, req.rawBody || Buffer.alloc(0));
+      if (problem) {
+        return res.status(401).json({ error: problem });
+      }
+
+      // The secret or signature itself is not passed on to the workflow
+      const authHeader = getAuthHeaderName(authConfig);
+      const headers = Object.fromEntries(
+        Object.entries(req.headers).filter(([name]) => name !== authHeader)
+      );
+      const input = {
+        body: req.body ?? {},
+        query: req.query,
+        headers,
+        method: req.method,
+        path,
+      };
+
+      // By default the caller gets the execution id right away; the other modes wait for the workflow
+      const responseMode = node.data.responseMode || 'onReceived';
+      if (responseMode === 'onReceived') {
+        const execution = await executionQueue.enqueue(workflow, input, { triggerNodeId: node.id, version });
+        return res.status(202).json({ executionId: execution.id, status: execution.status });
+      }
+
+      // With "responseNode" a webhook-response node shapes the reply, sent either as soon as it runs
+      // or once the run has finished
+      let reply: WebhookResponse | undefined;
+      const onWebhookResponse = responseMode === 'responseNode'
+        ? (response: WebhookResponse) => {
+            if (reply || res.headersSent) return;
+            reply = response;
+            if (response.immediate) sendWebhookResponse(res, response);
+          }
+        : undefined;
+
+      const execution = await workflowEngine.executeWorkflow(
+        workflow.id,
+        workflow.nodes as WorkflowNode[],
+        workflow.edges as WorkflowEdge[],
+        input,
+        workflow.settings as WorkflowSettings,
+        { triggerNodeId: node.id, version, onWebhookResponse }
+      );
+      // Already answered; the run went on in the background
+      if (res.headersSent) return;
+
+      if (execution.status !== 'completed') {
+        return res.status(500).json({ error: execution.error || `Execution ${execution.status}`, executionId: execution.id });
+      }
+      if (reply) {
+        return sendWebhookResponse(res, reply);
+      }
+      res.json(execution.output);
+    } catch (error) {
+      console.error("Webhook execution error:", error);
+      if (res.headersSent) return;
+      res.status(500).json({
+        error: "Workflow execution failed",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+}
@@ -1,6 +1,8 @@
 import type { Express, Request, Response } from "express";
 import { z } from "zod";
 import { langChainService } from "../services/langchain-service";
+import { MAX_CODE_TIMEOUT_SECONDS } from "../services/code-runner";
+import { requireAuth } from "../middleware/auth";
 
 // Validation schemas
 const pdfProcessingSchema = z.object({
@@ -62,7 +64,9 @@ const webSearchSchema = z.object({
 const codeExecutionSchema = z.object({
   code: z.string().min(1, "Code is required"),
   language: z.enum(["python", "javascript"]).optional(),
-  timeout: z.number().positive().optional(),
+  timeout: z.number().positive().max(MAX_CODE_TIMEOUT_SECONDS).optional(),
+  // Passed to the process as JSON on stdin
+  input: z.any().optional(),
 });
 
 const ragWorkflowSchema = z.object({
@@ -301,13 +305,14 @@ export function registerLangChainRoutes(app: Express): void {
     }
   });
 
-  app.post("/api/langchain/execute", async (req: Request, res: Response) => {
+  app.post("/api/langchain/execute", requireAuth, async (req: Request, res: Response) => {
     try {
       const validatedData = codeExecutionSchema.parse(req.body);
       const result = await langChainService.executeCode(
         validatedData.code,
         validatedData.language,
-        validatedData.timeout
+        validatedData.timeout,
+        { input: validatedData.input }
       );
       
       if (result.success) {
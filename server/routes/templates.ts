@@ -0,0 +1,161 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { getStorage } from "../config/storage";
+import { requireAuth, getUserId } from "../middleware/auth";
+import { getAccessibleWorkflow } from "../services/workflow-access";
+import {
+  findTemplates,
+  updateTemplate,
+  saveWorkflowAsTemplate,
+  instantiateTemplate,
+} from "../services/template-catalog";
+import { insertWorkflowTemplateSchema, type WorkflowTemplate } from "@shared/schema";
+
+const templateDetailsSchema = insertWorkflowTemplateSchema.pick({
+  name: true,
+  description: true,
+  category: true,
+  tags: true,
+  author: true,
+  inputs: true,
+});
+
+const instantiateSchema = z.object({
+  name: z.string().min(1).optional(),
+});
+
+// Built-in templates have no owner and are read-only; user templates can only be changed by their owner
+function getEditError(template: WorkflowTemplate, userId: string): string | null {
+  if (!template.userId) return "Built-in templates cannot be changed";
+  if (template.userId !== userId) return "Only the template's author can change it";
+  return null;
+}
+
+export function registerTemplateRoutes(app: Express): void {
+  // List templates, optionally filtered by category, tag or a search term
+  app.get("/api/templates", async (req: Request, res: Response) => {
+    try {
+      const templates = await findTemplates({
+        category: typeof req.query.category === 'string' ? req.query.category : undefined,
+        tag: typeof req.query.tag === 'string' ? req.query.tag : undefined,
+        search: typeof req.query.search === 'string' ? req.query.search : undefined,
+      });
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch templates" });
+    }
+  });
+
+  app.get("/api/templates/:id", async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const template = await storage.getWorkflowTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch template" });
+    }
+  });
+
+  app.post("/api/templates", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const validatedData = insertWorkflowTemplateSchema.parse(req.body);
+      const template = await storage.createWorkflowTemplate({ ...validatedData, userId: getUserId(req) });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid template data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create template" });
+    }
+  });
+
+  // Changing nodes, edges, settings or inputs raises the template's version
+  app.put("/api/templates/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const template = await storage.getWorkflowTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      const editError = getEditError(template, getUserId(req));
+      if (editError) {
+        return res.status(403).json({ error: editError });
+      }
+
+      const validatedData = insertWorkflowTemplateSchema.partial().parse(req.body);
+      const updated = await updateTemplate(template, validatedData);
+      if (!updated) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid template data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update template" });
+    }
+  });
+
+  app.delete("/api/templates/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const template = await storage.getWorkflowTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      const editError = getEditError(template, getUserId(req));
+      if (editError) {
+        return res.status(403).json({ error: editError });
+      }
+
+      await storage.deleteWorkflowTemplate(template.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete template" });
+    }
+  });
+
+  // Create a new draft workflow from the template, with fresh node and edge ids
+  app.post("/api/templates/:id/instantiate", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const template = await storage.getWorkflowTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      const { name } = instantiateSchema.parse(req.body || {});
+      const workflow = await instantiateTemplate(template, getUserId(req), name);
+      res.status(201).json(workflow);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      console.error("Template instantiation error:", error);
+      res.status(500).json({ error: "Failed to create workflow from template" });
+    }
+  });
+
+  // Save the workflow's current draft as a new template
+  app.post("/api/workflows/:id/template", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const workflow = await getAccessibleWorkflow(req.params.id, getUserId(req));
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+
+      const details = templateDetailsSchema.parse(req.body);
+      const template = await saveWorkflowAsTemplate(workflow, details, getUserId(req));
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid template data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save workflow as template" });
+    }
+  });
+}
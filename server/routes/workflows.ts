@@ -1,170 +1,224 @@
 import type { Express, Request, Response } from "express";
 import { z } from "zod";
 import { workflowEngine } from "../services/workflow-engine";
+import { executionQueue } from "../services/execution-queue";
 import { getStorage } from "../config/storage";
+import { workflowScheduler } from "../services/scheduler";
+import { exportWorkflowBundle, importWorkflowBundle } from "../services/workflow-bundle";
+import { recordWorkflowVersion, restoreWorkflowVersion, diffWorkflowVersions, publishWorkflow, getPublishedWorkflow } from "../services/workflow-versions";
+import { validateWorkflow } from "../services/workflow-validation";
+import { getAccessibleWorkflow, isWorkflowOwner } from "../services/workflow-access";
+import { requireAuth, getUserId } from "../middleware/auth";
+import { getWebhookEndpoints } from "./hooks";
+import { insertWorkflowSchema, type Workflow, type WorkflowSettings, type WorkflowNode, type WorkflowEdge } from "@shared/schema";
+
+// Saves only change the draft; workflows are published through publish and switched on and off
+// through activate and deactivate
+const workflowSaveSchema = insertWorkflowSchema.omit({ isActive: true, publishedVersion: true, publishedAt: true, templateId: true });
 
-// Validation schemas
 const workflowExecutionSchema = z.object({
   workflowId: z.string().min(1, "Workflow ID is required"),
   inputs: z.record(z.any()).optional(),
   timestamp: z.string().optional(),
 });
 
-const workflowCreateSchema = z.object({
-  name: z.string().min(1, "Workflow name is required"),
-  description: z.string().optional(),
-  nodes: z.array(z.any()).optional(),
-  edges: z.array(z.any()).optional(),
+const workflowShareSchema = z.object({
+  username: z.string().min(1, "Username is required"),
 });
 
+const OWNER_ONLY_ERROR = "Only the workflow's owner can do this";
+
+// Every route below needs a signed-in user and acts on workflows they own or that are shared with
+// them. Other users' workflows are reported as not found, so their ids cannot be probed.
+async function findWorkflow(req: Request, id: string = req.params.id): Promise<Workflow | undefined> {
+  return getAccessibleWorkflow(id, getUserId(req));
+}
+
 export function registerWorkflowRoutes(app: Express): void {
-  // Get all workflows
-  app.get("/api/workflows", async (req: Request, res: Response) => {
+  app.get("/api/workflows", requireAuth, async (req: Request, res: Response) => {
     try {
       const storage = await getStorage();
-      const workflows = await storage.getWorkflows();
+      const workflows = await storage.getWorkflows(getUserId(req));
       res.json(workflows);
     } catch (error) {
-      console.error("Failed to fetch workflows:", error);
       res.status(500).json({ error: "Failed to fetch workflows" });
     }
   });
 
-  // Get workflow by ID
-  app.get("/api/workflows/:id", async (req: Request, res: Response) => {
+  // Workflows other users have shared with the requesting user
+  app.get("/api/workflows/shared", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
       const storage = await getStorage();
-      const workflow = await storage.getWorkflow(id);
-      
+      const workflows = await storage.getSharedWorkflows(getUserId(req));
+      res.json(workflows);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch shared workflows" });
+    }
+  });
+
+  // Health check for workflow engine; like /shared it is registered before /:id so it is not taken for a workflow id
+  app.get("/api/workflows/health", async (req: Request, res: Response) => {
+    try {
+      res.json({
+        status: "healthy",
+        engine: "AgentFlow Workflow Engine",
+        version: "1.0.0",
+        timestamp: new Date().toISOString(),
+        features: {
+          langchain: true,
+          rag: true,
+          aiModels: true,
+          vectorStores: true,
+          memory: true,
+          tools: true
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Health check failed" });
+    }
+  });
+
+  app.get("/api/workflows/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const workflow = await findWorkflow(req);
       if (!workflow) {
         return res.status(404).json({ error: "Workflow not found" });
       }
-      
       res.json(workflow);
     } catch (error) {
-      console.error("Failed to fetch workflow:", error);
       res.status(500).json({ error: "Failed to fetch workflow" });
     }
   });
 
-  // Create new workflow
-  app.post("/api/workflows", async (req: Request, res: Response) => {
+  app.post("/api/workflows", requireAuth, async (req: Request, res: Response) => {
     try {
-      const validatedData = workflowCreateSchema.parse(req.body);
       const storage = await getStorage();
-      
-      const workflow = await storage.createWorkflow({
-        name: validatedData.name,
-        description: validatedData.description || "",
-        nodes: validatedData.nodes || [],
-        edges: validatedData.edges || [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
-      
+      const validatedData = workflowSaveSchema.parse(req.body);
+      const workflow = await storage.createWorkflow({ ...validatedData, userId: getUserId(req) });
+      await recordWorkflowVersion(workflow);
       res.status(201).json(workflow);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: "Invalid input", details: error.errors });
+        return res.status(400).json({ error: "Invalid workflow data", details: error.errors });
       }
-      console.error("Failed to create workflow:", error);
       res.status(500).json({ error: "Failed to create workflow" });
     }
   });
 
-  // Update workflow
-  app.put("/api/workflows/:id", async (req: Request, res: Response) => {
+  app.put("/api/workflows/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      const validatedData = workflowCreateSchema.parse(req.body);
       const storage = await getStorage();
-      
-      const workflow = await storage.updateWorkflow(id, {
-        name: validatedData.name,
-        description: validatedData.description || "",
-        nodes: validatedData.nodes || [],
-        edges: validatedData.edges || [],
-        updatedAt: new Date(),
-      });
-      
+      const validatedData = workflowSaveSchema.partial().parse(req.body);
+      const existing = await findWorkflow(req);
+      if (!existing) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!isWorkflowOwner(existing, getUserId(req))) {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+
+      const workflow = await storage.updateWorkflow(existing.id, validatedData);
       if (!workflow) {
         return res.status(404).json({ error: "Workflow not found" });
       }
-      
+      await recordWorkflowVersion(workflow);
       res.json(workflow);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: "Invalid input", details: error.errors });
+        return res.status(400).json({ error: "Invalid workflow data", details: error.errors });
       }
-      console.error("Failed to update workflow:", error);
       res.status(500).json({ error: "Failed to update workflow" });
     }
   });
 
-  // Delete workflow
-  app.delete("/api/workflows/:id", async (req: Request, res: Response) => {
+  app.delete("/api/workflows/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
       const storage = await getStorage();
-      
-      const success = await storage.deleteWorkflow(id);
-      
-      if (!success) {
+      const existing = await findWorkflow(req);
+      if (!existing) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!isWorkflowOwner(existing, getUserId(req))) {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+
+      const deleted = await storage.deleteWorkflow(existing.id, getUserId(req));
+      if (!deleted) {
         return res.status(404).json({ error: "Workflow not found" });
       }
-      
-      res.json({ message: "Workflow deleted successfully" });
+      workflowScheduler.unschedule(existing.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Failed to delete workflow:", error);
       res.status(500).json({ error: "Failed to delete workflow" });
     }
   });
 
-  // Execute workflow
-  app.post("/api/workflows/execute", async (req: Request, res: Response) => {
+  // Workflow execution routes
+  app.post("/api/workflows/:id/execute", requireAuth, async (req: Request, res: Response) => {
     try {
-      const validatedData = workflowExecutionSchema.parse(req.body);
-      const storage = await getStorage();
-      
-      // Get the workflow
-      const workflow = await storage.getWorkflow(validatedData.workflowId);
-      
+      const workflow = await findWorkflow(req);
       if (!workflow) {
         return res.status(404).json({ error: "Workflow not found" });
       }
 
-      console.log(`🚀 Executing workflow: ${workflow.name} (${workflow.id})`);
-      console.log(`📥 Inputs:`, validatedData.inputs);
+      // ?mode=async queues the run and returns immediately; poll GET /api/executions/:id for the result
+      if (req.query.mode === 'async') {
+        const execution = await executionQueue.enqueue(workflow, req.body);
+        return res.status(202).json(execution);
+      }
 
-      // Execute the workflow
       const execution = await workflowEngine.executeWorkflow(
         workflow.id,
-        workflow.nodes || [],
-        workflow.edges || [],
-        validatedData.inputs
+        workflow.nodes as any[],
+        workflow.edges as any[],
+        req.body,
+        workflow.settings as WorkflowSettings
       );
 
-      console.log(`✅ Workflow execution completed:`, execution);
+      res.json(execution);
+    } catch (error) {
+      console.error("Workflow execution error:", error);
+      res.status(500).json({
+        error: "Workflow execution failed",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Run a workflow named in the body and wait for it, answering with a summary of the run
+  app.post("/api/workflows/execute", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const validatedData = workflowExecutionSchema.parse(req.body);
+      const workflow = await findWorkflow(req, validatedData.workflowId);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+
+      const execution = await workflowEngine.executeWorkflow(
+        workflow.id,
+        workflow.nodes as WorkflowNode[],
+        workflow.edges as WorkflowEdge[],
+        validatedData.inputs,
+        workflow.settings as WorkflowSettings
+      );
 
       res.json({
         success: true,
         executionId: execution.id,
         status: execution.status,
         output: execution.output,
-        executionTime: execution.completedAt && execution.createdAt 
-          ? new Date(execution.completedAt).getTime() - new Date(execution.createdAt).getTime()
+        // Milliseconds from the start of the run, which the execution records as executionTime
+        executionTime: execution.completedAt
+          ? new Date(execution.completedAt).getTime() - new Date(execution.executionTime).getTime()
           : null,
         timestamp: new Date().toISOString()
       });
     } catch (error) {
-      console.error("❌ Workflow execution failed:", error);
-      
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid input", details: error.errors });
       }
-      
-      res.status(500).json({ 
+      console.error("Workflow execution error:", error);
+      res.status(500).json({
         success: false,
         error: "Workflow execution failed",
         details: error instanceof Error ? error.message : "Unknown error"
@@ -172,58 +226,322 @@ export function registerWorkflowRoutes(app: Express): void {
     }
   });
 
-  // Get workflow executions
-  app.get("/api/workflows/:id/executions", async (req: Request, res: Response) => {
+  app.get("/api/workflows/:id/executions", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
       const storage = await getStorage();
-      
-      const executions = await storage.getWorkflowExecutions(id);
+      const executions = await storage.getWorkflowExecutions(workflow.id);
       res.json(executions);
     } catch (error) {
-      console.error("Failed to fetch workflow executions:", error);
-      res.status(500).json({ error: "Failed to fetch workflow executions" });
+      res.status(500).json({ error: "Failed to fetch executions" });
     }
   });
 
-  // Get specific execution
-  app.get("/api/executions/:executionId", async (req: Request, res: Response) => {
+  // Last and next run times of the workflow's schedule triggers
+  app.get("/api/workflows/:id/schedules", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { executionId } = req.params;
-      const storage = await getStorage();
-      
-      const execution = await storage.getWorkflowExecution(executionId);
-      
-      if (!execution) {
-        return res.status(404).json({ error: "Execution not found" });
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
       }
-      
-      res.json(execution);
+      const schedules = await workflowScheduler.getSchedules(workflow.id);
+      res.json(schedules);
     } catch (error) {
-      console.error("Failed to fetch execution:", error);
-      res.status(500).json({ error: "Failed to fetch execution" });
+      res.status(500).json({ error: "Failed to fetch schedules" });
     }
   });
 
-  // Health check for workflow engine
-  app.get("/api/workflows/health", async (req: Request, res: Response) => {
+  // Problems that would stop the saved draft from being published
+  app.get("/api/workflows/:id/validation", requireAuth, async (req: Request, res: Response) => {
     try {
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      const problems = validateWorkflow(workflow.nodes as WorkflowNode[], workflow.edges as WorkflowEdge[]);
+      res.json({ valid: problems.length === 0, problems });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to validate workflow" });
+    }
+  });
+
+  // Publishing makes the saved draft the version that webhooks and schedules run; it is refused while
+  // the draft has problems
+  app.post("/api/workflows/:id/publish", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const existing = await findWorkflow(req);
+      if (!existing) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!isWorkflowOwner(existing, getUserId(req))) {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+
+      const problems = validateWorkflow(existing.nodes as WorkflowNode[], existing.edges as WorkflowEdge[]);
+      if (problems.length > 0) {
+        return res.status(422).json({ error: "Workflow has validation problems", problems });
+      }
+
+      const published = await publishWorkflow(existing);
+      if (!published) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      await workflowScheduler.sync(published.workflow);
+      res.json(published);
+    } catch (error) {
+      console.error("Workflow publish error:", error);
+      res.status(500).json({ error: "Failed to publish workflow" });
+    }
+  });
+
+  // Activation starts the webhooks and schedules of the published version
+  app.post("/api/workflows/:id/activate", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const existing = await findWorkflow(req);
+      if (!existing) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!isWorkflowOwner(existing, getUserId(req))) {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+      if (existing.publishedVersion === null) {
+        return res.status(409).json({ error: "Publish the workflow before activating it" });
+      }
+
+      // Published versions were valid when published, but the rules may have changed since
+      const published = await getPublishedWorkflow(existing);
+      const problems = validateWorkflow(published.nodes as WorkflowNode[], published.edges as WorkflowEdge[]);
+      if (problems.length > 0) {
+        return res.status(422).json({ error: "Published version has validation problems", problems });
+      }
+
+      const workflow = await storage.updateWorkflow(existing.id, { isActive: true });
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      await workflowScheduler.sync(workflow);
+
       res.json({
-        status: "healthy",
-        engine: "AgentFlow Workflow Engine",
-        version: "1.0.0",
-        timestamp: new Date().toISOString(),
-        features: {
-          langchain: true,
-          rag: true,
-          aiModels: true,
-          vectorStores: true,
-          memory: true,
-          tools: true
-        }
+        workflow,
+        webhooks: getWebhookEndpoints(published),
+        schedules: await workflowScheduler.getSchedules(workflow.id),
       });
     } catch (error) {
-      res.status(500).json({ error: "Health check failed" });
+      console.error("Workflow activation error:", error);
+      res.status(500).json({ error: "Failed to activate workflow" });
+    }
+  });
+
+  app.post("/api/workflows/:id/deactivate", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const existing = await findWorkflow(req);
+      if (!existing) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!isWorkflowOwner(existing, getUserId(req))) {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+
+      const workflow = await storage.updateWorkflow(existing.id, { isActive: false });
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      // Webhook calls are refused from here on because the workflow is inactive
+      await workflowScheduler.sync(workflow);
+      res.json({ workflow });
+    } catch (error) {
+      console.error("Workflow deactivation error:", error);
+      res.status(500).json({ error: "Failed to deactivate workflow" });
+    }
+  });
+
+  // Version history: every save that changed the workflow is kept as a numbered snapshot
+  app.get("/api/workflows/:id/versions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      const storage = await getStorage();
+      const versions = await storage.getWorkflowVersions(workflow.id);
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch versions" });
+    }
+  });
+
+  // ?from=3&to=5 compares two versions; `to` defaults to the latest
+  app.get("/api/workflows/:id/versions/diff", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const from = parseInt(String(req.query.from), 10);
+      const to = req.query.to !== undefined ? parseInt(String(req.query.to), 10) : undefined;
+      if (Number.isNaN(from) || (to !== undefined && Number.isNaN(to))) {
+        return res.status(400).json({ error: "from and to must be version numbers" });
+      }
+
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+
+      const fromVersion = await storage.getWorkflowVersion(workflow.id, from);
+      const toVersion = to !== undefined
+        ? await storage.getWorkflowVersion(workflow.id, to)
+        : (await storage.getWorkflowVersions(workflow.id))[0];
+      if (!fromVersion || !toVersion) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      res.json(diffWorkflowVersions(fromVersion, toVersion));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to compare versions" });
+    }
+  });
+
+  app.get("/api/workflows/:id/versions/:version", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      const storage = await getStorage();
+      const version = await storage.getWorkflowVersion(workflow.id, parseInt(req.params.version, 10));
+      if (!version) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      res.json(version);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch version" });
+    }
+  });
+
+  app.post("/api/workflows/:id/versions/:version/restore", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!isWorkflowOwner(workflow, getUserId(req))) {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+      const restored = await restoreWorkflowVersion(workflow.id, parseInt(req.params.version, 10));
+      if (!restored) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      res.json(restored);
+    } catch (error) {
+      console.error("Workflow restore error:", error);
+      res.status(500).json({ error: "Failed to restore version" });
+    }
+  });
+
+  // Sharing gives other users read and run access; only the owner sees and changes who has it
+  app.get("/api/workflows/:id/shares", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!isWorkflowOwner(workflow, getUserId(req))) {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+
+      const shares = await storage.getWorkflowShares(workflow.id);
+      const users = await Promise.all(shares.map(share => storage.getUser(share.userId)));
+      res.json(shares.map((share, index) => ({ ...share, username: users[index]?.username ?? null })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch shares" });
+    }
+  });
+
+  app.post("/api/workflows/:id/shares", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const { username } = workflowShareSchema.parse(req.body);
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!isWorkflowOwner(workflow, getUserId(req))) {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (user.id === workflow.userId) {
+        return res.status(400).json({ error: "The owner already has access to the workflow" });
+      }
+
+      const share = await storage.addWorkflowShare(workflow.id, user.id);
+      res.status(201).json({ ...share, username: user.username });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid share data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to share workflow" });
+    }
+  });
+
+  app.delete("/api/workflows/:id/shares/:userId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const workflow = await findWorkflow(req);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (!isWorkflowOwner(workflow, getUserId(req))) {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+
+      const deleted = await storage.deleteWorkflowShare(workflow.id, req.params.userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Share not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove share" });
+    }
+  });
+
+  // Portable bundle of a workflow and the workflows it calls, for moving it to another instance;
+  // ?draft=true exports drafts instead of published versions
+  app.get("/api/workflows/:id/export", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const bundle = await exportWorkflowBundle(req.params.id, { draft: req.query.draft === 'true', userId: getUserId(req) });
+      if (!bundle) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      const filename = bundle.workflows[0].name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'workflow';
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.workflow.json"`);
+      res.json(bundle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(422).json({ error: "Workflow cannot be exported", details: error.errors });
+      }
+      console.error("Workflow export error:", error);
+      res.status(500).json({ error: "Failed to export workflow" });
+    }
+  });
+
+  app.post("/api/workflows/import", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const imported = await importWorkflowBundle(req.body, getUserId(req));
+      res.status(201).json(imported);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid workflow bundle", details: error.errors });
+      }
+      console.error("Workflow import error:", error);
+      res.status(500).json({ error: "Failed to import workflow" });
     }
   });
 }
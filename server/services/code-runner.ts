@@ -0,0 +1,221 @@
+import { spawn } from "child_process";
+import { mkdtemp, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, isAbsolute, join } from "path";
+
+export interface CodeRunResult {
+  success: boolean;
+  // stdout parsed as JSON when possible, otherwise the trimmed text
+  result?: any;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  // Output went over the size cap; the process was stopped and the output cut off
+  truncated: boolean;
+  error?: string;
+}
+
+export interface CodeRunOptions {
+  // Written to stdin as JSON
+  input?: any;
+  timeoutSeconds?: number;
+  signal?: AbortSignal;
+}
+
+const OUTPUT_LIMIT_BYTES = parseInt(process.env.CODE_OUTPUT_LIMIT_BYTES || '1048576', 10) || 1048576;
+
+// Longer timeouts are cut down to this
+export const MAX_CODE_TIMEOUT_SECONDS = parseInt(process.env.CODE_RUNNER_MAX_TIMEOUT_SECONDS || '60', 10) || 60;
+
+// CODE_RUNNER_SANDBOX=bwrap runs code under bubblewrap: no network, only the interpreter's directories
+// mounted read-only, an unprivileged uid and address space and CPU time limits. Code in any language
+// is refused without it; neither interpreter can keep a script off the network by itself.
+const SANDBOX_ENABLED = process.env.CODE_RUNNER_SANDBOX === 'bwrap';
+const BWRAP_PATH = process.env.BWRAP_PATH || 'bwrap';
+const SANDBOX_UID = parseInt(process.env.CODE_RUNNER_UID || '65534', 10) || 65534;
+const SANDBOX_MEMORY_LIMIT_MB = parseInt(process.env.CODE_RUNNER_MEMORY_MB || '256', 10) || 256;
+// Comma separated; add the interpreter's install directory when it lives elsewhere, e.g. under pyenv
+const SANDBOX_READ_PATHS = (process.env.CODE_RUNNER_SANDBOX_PATHS || '/usr,/lib,/lib64,/bin,/etc/alternatives')
+  .split(',')
+  .map(path => path.trim())
+  .filter(Boolean);
+
+// Only what interpreters need to start; API keys and other secrets in the server env are not passed on
+const INHERITED_ENV_KEYS = ['PATH', 'HOME', 'LANG', 'PYENV_ROOT', 'PYENV_VERSION', 'SYSTEMROOT'];
+
+interface Interpreter {
+  command: string;
+  args: (code: string) => string[];
+  // Whether RLIMIT_AS applies; V8 reserves far more address space than it uses, so Node.js is
+  // limited through its heap size instead
+  limitAddressSpace: boolean;
+}
+
+const INTERPRETERS: Record<string, Interpreter> = {
+  // -I: isolated mode, ignoring PYTHON* variables and the user site directory
+  python: {
+    command: process.env.PYTHON_PATH || 'python3',
+    args: code => ['-I', '-c', code],
+    limitAddressSpace: true,
+  },
+  // The permission flag additionally denies file system, child process and worker access inside the
+  // sandbox; it does nothing about the network
+  javascript: {
+    command: process.execPath,
+    args: code => ['--experimental-permission', '--no-warnings', '--max-old-space-size=128', '-e', code],
+    limitAddressSpace: false,
+  },
+};
+
+export function isSupportedLanguage(language: string): boolean {
+  return language in INTERPRETERS;
+}
+
+// Run code in a child process with its own empty working directory
+export async function runCode(code: string, language: string, options: CodeRunOptions = {}): Promise<CodeRunResult> {
+  const interpreter = INTERPRETERS[language];
+  if (!interpreter) {
+    throw new Error(`Unsupported language: ${language}`);
+  }
+  if (!SANDBOX_ENABLED) {
+    throw new Error(`Running ${language} code requires a sandbox; set CODE_RUNNER_SANDBOX=bwrap`);
+  }
+
+  const timeoutSeconds = Math.min(options.timeoutSeconds || MAX_CODE_TIMEOUT_SECONDS, MAX_CODE_TIMEOUT_SECONDS);
+  const workDir = await mkdtemp(join(tmpdir(), 'code-run-'));
+  try {
+    return await runProcess(interpreter, code, workDir, { ...options, timeoutSeconds });
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+function runProcess(interpreter: Interpreter, code: string, cwd: string, options: CodeRunOptions): Promise<CodeRunResult> {
+  const env = Object.fromEntries(
+    INHERITED_ENV_KEYS.filter(key => process.env[key] !== undefined).map(key => [key, process.env[key]!])
+  );
+
+  return new Promise(resolve => {
+    const { command, args } = buildSandboxCommand(interpreter, code, options.timeoutSeconds!);
+    // bubblewrap is started as the unprivileged uid when the server runs as root
+    const ids = process.getuid?.() === 0 ? { uid: SANDBOX_UID, gid: SANDBOX_UID } : {};
+    const child = spawn(command, args, { cwd, env, stdio: 'pipe', ...ids });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let outputBytes = 0;
+    let timedOut = false;
+    let truncated = false;
+    let spawnError: Error | undefined;
+
+    const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+      if (truncated) return;
+      const remaining = OUTPUT_LIMIT_BYTES - outputBytes;
+      if (chunk.length > remaining) {
+        chunks.push(chunk.subarray(0, remaining));
+        truncated = true;
+        child.kill('SIGKILL');
+        return;
+      }
+      chunks.push(chunk);
+      outputBytes += chunk.length;
+    };
+    child.stdout.on('data', collect(stdout));
+    child.stderr.on('data', collect(stderr));
+
+    const timer = options.timeoutSeconds && options.timeoutSeconds > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          child.kill('SIGKILL');
+        }, options.timeoutSeconds * 1000)
+      : undefined;
+
+    const onAbort = () => child.kill('SIGKILL');
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.on('error', error => {
+      spawnError = error;
+    });
+
+    child.on('close', exitCode => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+
+      const out = Buffer.concat(stdout).toString('utf8');
+      const err = Buffer.concat(stderr).toString('utf8');
+      const success = !spawnError && !timedOut && !truncated && exitCode === 0;
+
+      let error: string | undefined;
+      if (spawnError) error = `Failed to start ${interpreter.command}: ${spawnError.message}`;
+      else if (timedOut) error = `Code timed out after ${options.timeoutSeconds}s`;
+      else if (truncated) error = `Output exceeded the ${OUTPUT_LIMIT_BYTES} byte limit`;
+      else if (options.signal?.aborted) error = 'Code execution aborted';
+      else if (exitCode !== 0) error = summarizeError(err) || `Process exited with code ${exitCode}`;
+
+      resolve({
+        success,
+        result: success ? parseOutput(out) : undefined,
+        stdout: out,
+        stderr: err,
+        exitCode,
+        timedOut,
+        truncated,
+        error,
+      });
+    });
+
+    // A script that never reads stdin closes the pipe early; that is not an error
+    child.stdin.on('error', () => {});
+    child.stdin.end(JSON.stringify(options.input ?? {}));
+  });
+}
+
+// bubblewrap with fresh namespaces (so no network), the read paths mounted read-only and nothing
+// writable, then prlimit to cap address space and CPU time before the interpreter starts
+function buildSandboxCommand(interpreter: Interpreter, code: string, timeoutSeconds: number): { command: string; args: string[] } {
+  // An interpreter given by full path, e.g. PYTHON_PATH=/opt/python/bin/python3, also gets its install directory
+  const installDir = isAbsolute(interpreter.command) ? [dirname(dirname(interpreter.command))] : [];
+  const readPaths = [...SANDBOX_READ_PATHS, ...installDir]
+    .filter((path, index, paths) => path !== '/' && existsSync(path) && paths.indexOf(path) === index);
+
+  const limits = [`--cpu=${Math.ceil(timeoutSeconds)}`];
+  if (interpreter.limitAddressSpace) {
+    limits.push(`--as=${SANDBOX_MEMORY_LIMIT_MB * 1024 * 1024}`);
+  }
+
+  return {
+    command: BWRAP_PATH,
+    args: [
+      '--unshare-all',
+      '--die-with-parent',
+      '--new-session',
+      '--uid', String(SANDBOX_UID),
+      '--gid', String(SANDBOX_UID),
+      ...readPaths.flatMap(path => ['--ro-bind', path, path]),
+      '--proc', '/proc',
+      '--dev', '/dev',
+      '--chdir', '/',
+      '--',
+      'prlimit', ...limits, '--',
+      interpreter.command, ...interpreter.args(code),
+    ],
+  };
+}
+
+// The exception line of a Python traceback or Node.js stack, e.g. "ValueError: bad input"
+function summarizeError(stderr: string): string | undefined {
+  const lines = stderr.split('\n').map(line => line.trim()).filter(Boolean);
+  return lines.find(line => /^[\w.]*(Error|Exception)\b.*:/.test(line))
+    || lines.reverse().find(line => !line.startsWith('Node.js v'));
+}
+
+function parseOutput(stdout: string): any {
+  const text = stdout.trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,168 @@
+import { Worker } from "worker_threads";
+
+export interface SandboxResult {
+  success: boolean;
+  result?: any;
+  error?: string;
+  // console output of the sandboxed code, one entry per call
+  logs: string[];
+  timedOut?: boolean;
+}
+
+export interface SandboxOptions {
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.CODE_SANDBOX_TIMEOUT_MS || '5000', 10) || 5000;
+const DEFAULT_MEMORY_LIMIT_MB = parseInt(process.env.CODE_SANDBOX_MEMORY_MB || '64', 10) || 64;
+
+// Time allowed for the worker to start before the code's own timeout begins to count
+const WORKER_STARTUP_GRACE_MS = 2000;
+
+const MAX_LOG_ENTRIES = 200;
+
+// Runs inside the worker. The code executes in a fresh vm context whose global object has a null
+// prototype and which holds no objects or functions from the worker's realm, so the usual
+// `this.constructor.constructor('return process')()` escapes have nothing to reach. Inputs are
+// passed as JSON and parsed inside the context, and results leave it as JSON.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const { code, globalsJson, timeoutMs, maxLogEntries } = workerData;
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: 'afterEvaluate',
+});
+
+const prelude = \`
+  var __logs = [];
+  var __state = { done: false };
+  var console = (function () {
+    function format(args) {
+      return Array.prototype.map.call(args, function (arg) {
+        if (typeof arg === 'string') return arg;
+        try { return JSON.stringify(arg); } catch (error) { return String(arg); }
+      }).join(' ');
+    }
+    function log() {
+      if (__logs.length < \${maxLogEntries}) __logs.push(format(arguments));
+    }
+    return { log: log, info: log, warn: log, error: log, debug: log };
+  })();
+  var __globals = JSON.parse(\${JSON.stringify(globalsJson)});
+\`;
+
+const program = \`
+  (async function (context, previousResults, input) {
+\${code}
+  })(__globals.context, __globals.previousResults, __globals.context).then(
+    function (value) {
+      __state.result = JSON.stringify(value === undefined ? null : value);
+      __state.done = true;
+    },
+    function (error) {
+      __state.error = error && error.message ? String(error.message) : String(error);
+      __state.done = true;
+    }
+  );
+\`;
+
+try {
+  vm.runInContext(prelude, context);
+  vm.runInContext(program, context, { timeout: timeoutMs, filename: 'sandbox.js' });
+
+  const read = (expression) => {
+    const value = vm.runInContext(expression, context, { timeout: timeoutMs });
+    return typeof value === 'string' ? value : undefined;
+  };
+  const logs = JSON.parse(read('JSON.stringify(__logs)') || '[]');
+  const done = read('__state.done ? "yes" : "no"') === 'yes';
+  const error = read('__state.error');
+
+  if (!done) {
+    parentPort.postMessage({ success: false, error: 'Code returned a promise that never settled', logs });
+  } else if (error !== undefined) {
+    parentPort.postMessage({ success: false, error, logs });
+  } else {
+    parentPort.postMessage({ success: true, result: JSON.parse(read('__state.result') || 'null'), logs });
+  }
+} catch (error) {
+  const timedOut = error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+  parentPort.postMessage({
+    success: false,
+    error: timedOut ? 'Code timed out after ' + timeoutMs + 'ms' : String(error && error.message || error),
+    logs: [],
+    timedOut: timedOut || undefined,
+  });
+}
+`;
+
+// Run a JavaScript function body in an isolated worker thread. Only `context` (also available as
+// `input`) and `previousResults` are visible to the code; there is no require, process, timers or network access.
+export function runSandboxedCode(
+  code: string,
+  globals: { context: any; previousResults: any },
+  options: SandboxOptions = {}
+): Promise<SandboxResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const memoryLimitMb = options.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+
+  let globalsJson: string;
+  try {
+    globalsJson = JSON.stringify(globals);
+  } catch (error) {
+    return Promise.resolve({ success: false, error: 'Code inputs could not be serialized', logs: [] });
+  }
+
+  return new Promise(resolve => {
+    let settled = false;
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { code, globalsJson, timeoutMs, maxLogEntries: MAX_LOG_ENTRIES },
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryLimitMb / 4)),
+        stackSizeMb: 4,
+      },
+      // The sandbox gets an empty environment so API keys are never in reach
+      env: {},
+      stdout: true,
+      stderr: true,
+    });
+
+    const finish = (result: SandboxResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      resolve(result);
+    };
+
+    // Backstop for a worker that never reports back, e.g. one that hangs while starting
+    const timer = setTimeout(() => {
+      finish({ success: false, error: `Code timed out after ${timeoutMs}ms`, logs: [], timedOut: true });
+    }, timeoutMs + WORKER_STARTUP_GRACE_MS);
+
+    const onAbort = () => finish({ success: false, error: 'Code execution aborted', logs: [] });
+    if (options.signal?.aborted) return onAbort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.on('message', (result: SandboxResult) => finish(result));
+    worker.on('error', error => {
+      const outOfMemory = (error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY';
+      finish({
+        success: false,
+        error: outOfMemory ? `Code exceeded the ${memoryLimitMb}MB memory limit` : error.message,
+        logs: [],
+      });
+    });
+    worker.on('exit', exitCode => {
+      finish({ success: false, error: `Sandbox exited unexpectedly with code ${exitCode}`, logs: [] });
+    });
+  });
+}
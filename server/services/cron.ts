@@ -0,0 +1,268 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in an IANA time zone.
+//
+// Fields accept `*`, numbers, ranges (`1-5`), steps (`*/15`, `10-40/10`), lists (`1,15`) and month or
+// weekday names (`jan`, `mon-fri`); day-of-week 0 and 7 are both Sunday. When both day fields are
+// restricted a day matches if either does, as in Vixie cron. `@hourly`, `@daily`, `@weekly`,
+// `@monthly` and `@yearly` are accepted as shorthands.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were `*`, which decides how they combine
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Far enough to cover a Feb 29th schedule; anything later means the expression never matches
+const MAX_SEARCH_YEARS = 8;
+
+export function parseCron(expression: string): CronSchedule {
+  const source = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*' || parts[2] === '?',
+    anyDayOfWeek: parts[4] === '*' || parts[4] === '?',
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The first minute strictly after `after` that matches the schedule, in the given time zone.
+// Wall-clock times skipped by a DST change never match; repeated ones match once.
+export function getNextCronRun(schedule: CronSchedule | string, after: Date, timeZone = 'UTC'): Date {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const start = new Date(Math.floor(after.getTime() / 60000) * 60000 + 60000);
+  const limit = getZonedParts(start, timeZone).year + MAX_SEARCH_YEARS;
+
+  let { year, month, day, hour, minute } = getZonedParts(start, timeZone);
+
+  while (year <= limit) {
+    if (!cron.months.has(month)) {
+      ({ year, month } = nextMonth(year, month));
+      day = 1; hour = 0; minute = 0;
+      continue;
+    }
+    if (day > daysInMonth(year, month) || !matchesDay(cron, year, month, day)) {
+      day++;
+      hour = 0; minute = 0;
+      if (day > daysInMonth(year, month)) {
+        ({ year, month } = nextMonth(year, month));
+        day = 1;
+      }
+      continue;
+    }
+    if (!cron.hours.has(hour)) {
+      hour++;
+      minute = 0;
+      if (hour > 23) {
+        day++;
+        hour = 0;
+      }
+      continue;
+    }
+    if (!cron.minutes.has(minute)) {
+      minute++;
+      if (minute > 59) {
+        hour++;
+        minute = 0;
+        if (hour > 23) {
+          day++;
+          hour = 0;
+        }
+      }
+      continue;
+    }
+
+    const candidate = zonedTimeToUtc(year, month, day, hour, minute, timeZone);
+    if (candidate && candidate.getTime() >= start.getTime()) {
+      return candidate;
+    }
+    // Skipped by a DST change, or already passed during a repeated hour
+    minute++;
+    if (minute > 59) {
+      hour++;
+      minute = 0;
+      if (hour > 23) {
+        day++;
+        hour = 0;
+      }
+    }
+  }
+
+  throw new Error('Cron expression never matches');
+}
+
+function parseField(source: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.toLowerCase().split(',')) {
+    const [rangeSource, stepSource, ...extra] = part.split('/');
+    if (extra.length > 0 || !rangeSource) {
+      throw new Error(`Invalid cron ${spec.name} "${part}"`);
+    }
+
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron ${spec.name} step "${stepSource}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (rangeSource === '*' || rangeSource === '?') {
+      from = spec.min;
+      // `*` in day of week is 0-6, so Sunday is not counted twice
+      to = spec.names && spec.max === 7 ? 6 : spec.max;
+    } else {
+      const [start, end, ...rest] = rangeSource.split('-');
+      if (rest.length > 0) {
+        throw new Error(`Invalid cron ${spec.name} "${part}"`);
+      }
+      from = parseValue(start, spec);
+      // `5/15` means from 5 to the end of the range
+      to = end !== undefined ? parseValue(end, spec) : stepSource !== undefined ? spec.max : from;
+      if (to < from) {
+        throw new Error(`Invalid cron ${spec.name} range "${rangeSource}"`);
+      }
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(source: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(source) ?? -1;
+  const value = named >= 0 ? named + spec.min : /^\d+$/.test(source) ? Number(source) : NaN;
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid cron ${spec.name} "${source}"`);
+  }
+  return value;
+}
+
+function matchesDay(cron: CronSchedule, year: number, month: number, day: number): boolean {
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const domMatches = cron.daysOfMonth.has(day);
+  const dowMatches = cron.daysOfWeek.has(dayOfWeek);
+
+  if (cron.anyDayOfMonth && cron.anyDayOfWeek) return true;
+  if (cron.anyDayOfMonth) return dowMatches;
+  if (cron.anyDayOfWeek) return domMatches;
+  return domMatches || dowMatches;
+}
+
+function nextMonth(year: number, month: number): { year: number; month: number } {
+  return month === 12 ? { year: year + 1, month: 1 } : { year, month: month + 1 };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // Throws a RangeError for unknown time zones
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+// The UTC instant that shows the given wall-clock time in the time zone, the earlier one when the
+// time is repeated, or null when a DST change skips it
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date | null {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Try the offsets in effect a day either side of the time; one of them is the right one
+  const offsets = [wallClock - 86400000, wallClock + 86400000].map(probe => {
+    const parts = getZonedParts(new Date(probe), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - probe;
+  });
+
+  const matches = Array.from(new Set(offsets))
+    .map(offset => wallClock - offset)
+    .filter(instant => {
+      const parts = getZonedParts(new Date(instant), timeZone);
+      return parts.year === year && parts.month === month && parts.day === day && parts.hour === hour && parts.minute === minute;
+    })
+    .sort((a, b) => a - b);
+
+  return matches.length > 0 ? new Date(matches[0]) : null;
+}
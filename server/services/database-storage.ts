@@ -1,14 +1,23 @@
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, asc, and, max, inArray } from 'drizzle-orm';
 import bcrypt from 'bcryptjs';
 import { db } from '../database';
-import { users, workflows, workflowExecutions } from '@shared/schema';
+import { users, workflows, workflowExecutions, nodeExecutions, workflowSchedules, workflowVersions, workflowTemplates, workflowShares } from '@shared/schema';
 import { 
   type User, 
   type InsertUser, 
   type Workflow, 
   type InsertWorkflow, 
   type WorkflowExecution, 
-  type InsertWorkflowExecution 
+  type InsertWorkflowExecution,
+  type NodeExecution,
+  type InsertNodeExecution,
+  type WorkflowSchedule,
+  type InsertWorkflowSchedule,
+  type WorkflowVersion,
+  type InsertWorkflowVersion,
+  type WorkflowTemplate,
+  type InsertWorkflowTemplate,
+  type WorkflowShare
 } from '@shared/schema';
 import type { IStorage } from '../storage';
 
@@ -91,9 +100,9 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getWorkflow(id: string): Promise<Workflow | undefined> {
+  async getWorkflow(id: string, userId?: string): Promise<Workflow | undefined> {
     try {
-      const result = await db.select().from(workflows).where(eq(workflows.id, id)).limit(1);
+      const result = await db.select().from(workflows).where(getWorkflowFilter(id, userId)).limit(1);
       return result[0];
     } catch (error) {
       console.error('Error getting workflow:', error);
@@ -126,16 +135,195 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async deleteWorkflow(id: string): Promise<boolean> {
+  async deleteWorkflow(id: string, userId?: string): Promise<boolean> {
     try {
-      await db.delete(workflows).where(eq(workflows.id, id));
-      return true;
+      const result = await db.delete(workflows).where(getWorkflowFilter(id, userId)).returning({ id: workflows.id });
+      return result.length > 0;
     } catch (error) {
       console.error('Error deleting workflow:', error);
       return false;
     }
   }
 
+  // Workflow version methods
+  async getWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]> {
+    try {
+      const result = await db
+        .select()
+        .from(workflowVersions)
+        .where(eq(workflowVersions.workflowId, workflowId))
+        .orderBy(desc(workflowVersions.version));
+      
+      return result;
+    } catch (error) {
+      console.error('Error getting workflow versions:', error);
+      return [];
+    }
+  }
+
+  async getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined> {
+    try {
+      const result = await db
+        .select()
+        .from(workflowVersions)
+        .where(and(eq(workflowVersions.workflowId, workflowId), eq(workflowVersions.version, version)))
+        .limit(1);
+      
+      return result[0];
+    } catch (error) {
+      console.error('Error getting workflow version:', error);
+      return undefined;
+    }
+  }
+
+  async createWorkflowVersion(insertVersion: InsertWorkflowVersion): Promise<WorkflowVersion> {
+    try {
+      // Locking the workflow row makes concurrent saves of the same workflow take numbers in turn
+      return await db.transaction(async (tx) => {
+        await tx
+          .select({ id: workflows.id })
+          .from(workflows)
+          .where(eq(workflows.id, insertVersion.workflowId))
+          .for('update');
+
+        const [latest] = await tx
+          .select({ version: max(workflowVersions.version) })
+          .from(workflowVersions)
+          .where(eq(workflowVersions.workflowId, insertVersion.workflowId));
+
+        const result = await tx
+          .insert(workflowVersions)
+          .values({ ...insertVersion, version: (latest?.version || 0) + 1 })
+          .returning();
+
+        return result[0];
+      });
+    } catch (error) {
+      console.error('Error creating workflow version:', error);
+      throw new Error('Failed to create workflow version');
+    }
+  }
+
+  // Workflow sharing methods
+  async getWorkflowShares(workflowId: string): Promise<WorkflowShare[]> {
+    try {
+      return await db
+        .select()
+        .from(workflowShares)
+        .where(eq(workflowShares.workflowId, workflowId))
+        .orderBy(asc(workflowShares.createdAt));
+    } catch (error) {
+      console.error('Error getting workflow shares:', error);
+      return [];
+    }
+  }
+
+  async getSharedWorkflows(userId: string): Promise<Workflow[]> {
+    try {
+      const result = await db
+        .select({ workflow: workflows })
+        .from(workflowShares)
+        .innerJoin(workflows, eq(workflowShares.workflowId, workflows.id))
+        .where(eq(workflowShares.userId, userId))
+        .orderBy(desc(workflows.updatedAt));
+
+      return result.map(row => row.workflow);
+    } catch (error) {
+      console.error('Error getting shared workflows:', error);
+      return [];
+    }
+  }
+
+  async addWorkflowShare(workflowId: string, userId: string): Promise<WorkflowShare> {
+    try {
+      // The no-op update makes an existing share come back from returning()
+      const result = await db
+        .insert(workflowShares)
+        .values({ workflowId, userId })
+        .onConflictDoUpdate({
+          target: [workflowShares.workflowId, workflowShares.userId],
+          set: { userId },
+        })
+        .returning();
+
+      return result[0];
+    } catch (error) {
+      console.error('Error adding workflow share:', error);
+      throw new Error('Failed to share workflow');
+    }
+  }
+
+  async deleteWorkflowShare(workflowId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await db
+        .delete(workflowShares)
+        .where(and(eq(workflowShares.workflowId, workflowId), eq(workflowShares.userId, userId)))
+        .returning({ id: workflowShares.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting workflow share:', error);
+      return false;
+    }
+  }
+
+  // Workflow template methods
+  async getWorkflowTemplates(): Promise<WorkflowTemplate[]> {
+    try {
+      return await db.select().from(workflowTemplates).orderBy(asc(workflowTemplates.name));
+    } catch (error) {
+      console.error('Error getting workflow templates:', error);
+      return [];
+    }
+  }
+
+  async getWorkflowTemplate(id: string): Promise<WorkflowTemplate | undefined> {
+    try {
+      const result = await db.select().from(workflowTemplates).where(eq(workflowTemplates.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error getting workflow template:', error);
+      return undefined;
+    }
+  }
+
+  async createWorkflowTemplate(insertTemplate: InsertWorkflowTemplate & { id?: string; userId?: string | null }): Promise<WorkflowTemplate> {
+    try {
+      const result = await db.insert(workflowTemplates).values(insertTemplate).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating workflow template:', error);
+      throw new Error('Failed to create workflow template');
+    }
+  }
+
+  async updateWorkflowTemplate(
+    id: string,
+    updates: Partial<InsertWorkflowTemplate> & { version?: number }
+  ): Promise<WorkflowTemplate | undefined> {
+    try {
+      const result = await db
+        .update(workflowTemplates)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(workflowTemplates.id, id))
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      console.error('Error updating workflow template:', error);
+      return undefined;
+    }
+  }
+
+  async deleteWorkflowTemplate(id: string): Promise<boolean> {
+    try {
+      await db.delete(workflowTemplates).where(eq(workflowTemplates.id, id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting workflow template:', error);
+      return false;
+    }
+  }
+
   // Workflow execution methods
   async getWorkflowExecutions(workflowId: string): Promise<WorkflowExecution[]> {
     try {
@@ -167,13 +355,43 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getChildExecutions(parentExecutionId: string): Promise<WorkflowExecution[]> {
+    try {
+      const result = await db
+        .select()
+        .from(workflowExecutions)
+        .where(eq(workflowExecutions.parentExecutionId, parentExecutionId))
+        .orderBy(asc(workflowExecutions.executionTime));
+      
+      return result;
+    } catch (error) {
+      console.error('Error getting child executions:', error);
+      return [];
+    }
+  }
+
+  async getExecutionsByStatus(statuses: string[]): Promise<WorkflowExecution[]> {
+    try {
+      const result = await db
+        .select()
+        .from(workflowExecutions)
+        .where(inArray(workflowExecutions.status, statuses))
+        .orderBy(asc(workflowExecutions.executionTime));
+      
+      return result;
+    } catch (error) {
+      console.error('Error getting executions by status:', error);
+      return [];
+    }
+  }
+
   async createWorkflowExecution(insertExecution: InsertWorkflowExecution): Promise<WorkflowExecution> {
     try {
       const result = await db
         .insert(workflowExecutions)
         .values({
           ...insertExecution,
-          status: 'running',
+          status: insertExecution.status || 'running',
           error: null,
           output: null,
           completedAt: null,
@@ -204,4 +422,99 @@ export class DatabaseStorage implements IStorage {
       return undefined;
     }
   }
+
+  // Node execution trace methods
+  async getNodeExecutions(executionId: string): Promise<NodeExecution[]> {
+    try {
+      const result = await db
+        .select()
+        .from(nodeExecutions)
+        .where(eq(nodeExecutions.executionId, executionId))
+        .orderBy(asc(nodeExecutions.startedAt));
+      
+      return result;
+    } catch (error) {
+      console.error('Error getting node executions:', error);
+      return [];
+    }
+  }
+
+  async createNodeExecution(insertNodeExecution: InsertNodeExecution): Promise<NodeExecution> {
+    try {
+      const result = await db
+        .insert(nodeExecutions)
+        .values(insertNodeExecution)
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      console.error('Error creating node execution:', error);
+      throw new Error('Failed to create node execution');
+    }
+  }
+
+  async updateNodeExecution(
+    id: string, 
+    updates: Partial<NodeExecution>
+  ): Promise<NodeExecution | undefined> {
+    try {
+      const result = await db
+        .update(nodeExecutions)
+        .set(updates)
+        .where(eq(nodeExecutions.id, id))
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      console.error('Error updating node execution:', error);
+      return undefined;
+    }
+  }
+
+  // Schedule trigger state methods
+  async getWorkflowSchedules(workflowId: string): Promise<WorkflowSchedule[]> {
+    try {
+      return await db
+        .select()
+        .from(workflowSchedules)
+        .where(eq(workflowSchedules.workflowId, workflowId));
+    } catch (error) {
+      console.error('Error getting workflow schedules:', error);
+      return [];
+    }
+  }
+
+  async saveWorkflowSchedule(insertSchedule: InsertWorkflowSchedule): Promise<WorkflowSchedule> {
+    try {
+      const { workflowId, nodeId, ...updates } = insertSchedule;
+      const result = await db
+        .insert(workflowSchedules)
+        .values(insertSchedule)
+        .onConflictDoUpdate({
+          target: [workflowSchedules.workflowId, workflowSchedules.nodeId],
+          set: { ...updates, updatedAt: new Date() },
+        })
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      console.error('Error saving workflow schedule:', error);
+      throw new Error('Failed to save workflow schedule');
+    }
+  }
+
+  async deleteWorkflowSchedule(id: string): Promise<boolean> {
+    try {
+      await db.delete(workflowSchedules).where(eq(workflowSchedules.id, id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting workflow schedule:', error);
+      return false;
+    }
+  }
+}
+
+// Matches the workflow by id, and by owner when a userId is given
+function getWorkflowFilter(id: string, userId?: string) {
+  return userId ? and(eq(workflows.id, id), eq(workflows.userId, userId)) : eq(workflows.id, id);
 }
\ No newline at end of file
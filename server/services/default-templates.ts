@@ -0,0 +1,640 @@
+import { type InsertWorkflowTemplate } from "@shared/schema";
+
+// Built-in templates seeded into the catalog on startup. Nodes are stored the way the builder saves
+// them; LangChain nodes keep their settings in data.config, which is what the engine reads.
+export const DEFAULT_TEMPLATES: Array<InsertWorkflowTemplate & { id: string }> = [
+  {
+    id: 'customer-support',
+    name: 'Customer Support Agent',
+    description: 'AI agent that handles customer inquiries with sentiment analysis and escalation',
+    category: 'Customer Service',
+    tags: ['customer-support', 'sentiment-analysis', 'escalation', 'automation'],
+    author: 'AgentFlow Team',
+    nodes: [
+      {
+        id: 'trigger-1',
+        type: 'customNode',
+        position: { x: 100, y: 100 },
+        data: {
+          nodeType: 'webhook',
+          label: 'Customer Message',
+          description: 'Incoming customer support request',
+          category: 'inputs',
+          path: 'customer-support',
+          method: 'POST'
+        }
+      },
+      {
+        id: 'openai-1',
+        type: 'customNode',
+        position: { x: 400, y: 100 },
+        data: {
+          nodeType: 'openai',
+          label: 'Analyze Message',
+          description: 'Analyze customer sentiment and generate response',
+          category: 'ai',
+          model: 'gpt-4o',
+          temperature: 0.7,
+          systemPrompt: 'You are a customer support AI. Analyze the customer message sentiment and provide an appropriate response. Return a JSON object with sentiment score (0-1) and response.',
+          userMessage: 'Customer message: {{ input.message }}'
+        }
+      },
+      {
+        id: 'condition-1',
+        type: 'customNode',
+        position: { x: 700, y: 100 },
+        data: {
+          nodeType: 'condition',
+          label: 'Check Sentiment',
+          description: 'Route based on customer sentiment',
+          category: 'processing',
+          condition: 'previousResults.sentiment > 0.7'
+        }
+      },
+      {
+        id: 'email-1',
+        type: 'customNode',
+        position: { x: 1000, y: 50 },
+        data: {
+          nodeType: 'email',
+          label: 'Positive Feedback Alert',
+          description: 'Notify team of positive feedback',
+          category: 'outputs',
+          to: 'support@company.com',
+          subject: 'Positive Customer Feedback Received',
+          body: 'We received positive feedback: {{ openai-1.response }}'
+        }
+      },
+      {
+        id: 'escalate-1',
+        type: 'customNode',
+        position: { x: 1000, y: 150 },
+        data: {
+          nodeType: 'webhook-response',
+          label: 'Escalate Issue',
+          description: 'Create high priority support ticket',
+          category: 'outputs',
+          statusCode: 200,
+          responseData: '{"action": "escalate", "priority": "high", "response": "{{ openai-1.response }}"}'
+        }
+      }
+    ],
+    edges: [
+      { id: 'e1-2', source: 'trigger-1', target: 'openai-1' },
+      { id: 'e2-3', source: 'openai-1', target: 'condition-1' },
+      { id: 'e3-4', source: 'condition-1', target: 'email-1', sourceHandle: 'true' },
+      { id: 'e3-5', source: 'condition-1', target: 'escalate-1', sourceHandle: 'false' }
+    ],
+    inputs: [
+      {
+        name: 'message',
+        type: 'textarea',
+        label: 'Customer Message',
+        description: 'The message the customer sent',
+        required: true,
+        placeholder: 'e.g., My order arrived damaged'
+      }
+    ]
+  },
+  {
+    id: 'content-generator',
+    name: 'Content Generation Workflow',
+    description: 'Generate blog posts, social media content, and marketing materials',
+    category: 'Content Creation',
+    tags: ['content-generation', 'blog-writing', 'social-media', 'marketing'],
+    author: 'AgentFlow Team',
+    nodes: [
+      {
+        id: 'manual-1',
+        type: 'customNode',
+        position: { x: 100, y: 100 },
+        data: {
+          nodeType: 'manual',
+          label: 'Manual Trigger',
+          description: 'Start content generation process',
+          category: 'inputs'
+        }
+      },
+      {
+        id: 'openai-1',
+        type: 'customNode',
+        position: { x: 400, y: 100 },
+        data: {
+          nodeType: 'openai',
+          label: 'Generate Content',
+          description: 'Create engaging content based on topic',
+          category: 'ai',
+          model: 'gpt-4o',
+          temperature: 0.8,
+          maxTokens: 500,
+          systemPrompt: 'You are a content creation AI. Generate engaging, SEO-friendly content based on the provided topic and target audience.',
+          userMessage: 'Topic: {{ input.topic }}\nTarget Audience: {{ input.audience }}\nContent Type: {{ input.contentType }}'
+        }
+      },
+      {
+        id: 'code-1',
+        type: 'customNode',
+        position: { x: 700, y: 100 },
+        data: {
+          nodeType: 'code',
+          label: 'Format Output',
+          description: 'Format content for publishing',
+          category: 'processing',
+          language: 'javascript',
+          code: [
+            '// Format the generated content; node ids change when the template is used, so look it up by shape',
+            "const content = Object.values(previousResults).map(result => result?.response).find(Boolean) || '';",
+            'return {',
+            "  title: content.split('\\n')[0],",
+            "  body: content.split('\\n').slice(1).join('\\n'),",
+            "  wordCount: content.split(' ').length,",
+            '  generatedAt: new Date().toISOString()',
+            '};'
+          ].join('\n')
+        }
+      }
+    ],
+    edges: [
+      { id: 'e1-2', source: 'manual-1', target: 'openai-1' },
+      { id: 'e2-3', source: 'openai-1', target: 'code-1' }
+    ],
+    inputs: [
+      {
+        name: 'topic',
+        type: 'text',
+        label: 'Topic',
+        description: 'What the content should be about',
+        required: true,
+        placeholder: 'e.g., Remote work productivity'
+      },
+      {
+        name: 'audience',
+        type: 'text',
+        label: 'Target Audience',
+        required: false,
+        placeholder: 'e.g., Startup founders'
+      },
+      {
+        name: 'contentType',
+        type: 'select',
+        label: 'Content Type',
+        required: false,
+        options: ['Blog Post', 'Social Media Post', 'Newsletter', 'Product Description'],
+        defaultValue: 'Blog Post'
+      }
+    ]
+  },
+  {
+    id: 'data-analysis',
+    name: 'Data Analysis Pipeline',
+    description: 'Automated data processing, analysis, and reporting workflow',
+    category: 'Data Science',
+    tags: ['data-analysis', 'processing', 'reporting', 'pipeline'],
+    author: 'AgentFlow Team',
+    nodes: [
+      {
+        id: 'schedule-1',
+        type: 'customNode',
+        position: { x: 100, y: 100 },
+        data: {
+          nodeType: 'schedule',
+          label: 'Daily Analysis',
+          description: 'Trigger daily at 9 AM',
+          category: 'inputs',
+          mode: 'cron',
+          cron: '0 9 * * *',
+          timezone: 'UTC'
+        }
+      },
+      {
+        id: 'code-1',
+        type: 'customNode',
+        position: { x: 400, y: 100 },
+        data: {
+          nodeType: 'code',
+          label: 'Fetch Data',
+          description: 'Retrieve data from database',
+          category: 'processing',
+          language: 'javascript',
+          code: [
+            '// Replace with a query against your own data source',
+            'const data = {',
+            '  sales: Math.floor(Math.random() * 10000) + 5000,',
+            '  users: Math.floor(Math.random() * 1000) + 500,',
+            '  revenue: Math.floor(Math.random() * 50000) + 20000',
+            '};',
+            'return { data, timestamp: new Date().toISOString() };'
+          ].join('\n')
+        }
+      },
+      {
+        id: 'openai-1',
+        type: 'customNode',
+        position: { x: 700, y: 100 },
+        data: {
+          nodeType: 'openai',
+          label: 'Generate Insights',
+          description: 'AI-powered data analysis',
+          category: 'ai',
+          model: 'gpt-4o',
+          temperature: 0.3,
+          systemPrompt: 'You are a data analyst AI. Analyze the provided data and generate actionable insights and recommendations.',
+          userMessage: 'Data to analyze: {{ code-1.data | json }}'
+        }
+      },
+      {
+        id: 'email-1',
+        type: 'customNode',
+        position: { x: 1000, y: 100 },
+        data: {
+          nodeType: 'email',
+          label: 'Daily Report',
+          description: 'Send analysis report to team',
+          category: 'outputs',
+          to: 'analytics@company.com',
+          subject: 'Daily Analytics Report',
+          body: "Here are today's insights:\n\n{{ openai-1.response }}"
+        }
+      }
+    ],
+    edges: [
+      { id: 'e1-2', source: 'schedule-1', target: 'code-1' },
+      { id: 'e2-3', source: 'code-1', target: 'openai-1' },
+      { id: 'e3-4', source: 'openai-1', target: 'email-1' }
+    ],
+    // Runs on its schedule, so there is nothing to ask for
+    inputs: []
+  },
+  {
+    id: 'document-qa',
+    name: 'Document Q&A System',
+    description: 'RAG-based system for answering questions from uploaded documents',
+    category: 'Document Processing',
+    tags: ['rag', 'document-processing', 'qa-system', 'vector-store'],
+    author: 'AgentFlow Team',
+    nodes: [
+      {
+        id: 'question-1',
+        type: 'customNode',
+        position: { x: 100, y: 100 },
+        data: { nodeType: 'manual', label: 'Question' }
+      },
+      {
+        id: 'pdf-1',
+        type: 'customNode',
+        position: { x: 300, y: 100 },
+        data: {
+          nodeType: 'pdf-loader',
+          label: 'Load PDF',
+          type: 'pdf-loader',
+          config: { filePath: '/path/to/document.pdf' }
+        }
+      },
+      {
+        id: 'vector-1',
+        type: 'customNode',
+        position: { x: 500, y: 100 },
+        data: {
+          nodeType: 'pinecone-store',
+          label: 'Vector Store',
+          type: 'pinecone-store',
+          config: { apiKey: '', environment: 'us-west1-gcp', indexName: 'knowledge-base' }
+        }
+      },
+      {
+        id: 'openai-1',
+        type: 'customNode',
+        position: { x: 700, y: 100 },
+        data: {
+          nodeType: 'openai-chat',
+          label: 'Answer Questions',
+          type: 'openai-chat',
+          config: {
+            messages: [
+              { role: 'system', content: 'Answer the question using only the provided document. Search depth: {{ input.search_depth | default: "Standard" }}.' },
+              { role: 'user', content: 'Document:\n{{ pdf-1.content }}\n\nQuestion: {{ input.question }}' }
+            ],
+            model: 'gpt-4o',
+            temperature: 0.7,
+            maxTokens: 1000
+          }
+        }
+      }
+    ],
+    edges: [
+      { id: 'e0-1', source: 'question-1', target: 'pdf-1' },
+      { id: 'e1-2', source: 'pdf-1', target: 'vector-1' },
+      { id: 'e2-3', source: 'vector-1', target: 'openai-1' }
+    ],
+    inputs: [
+      {
+        name: 'question',
+        type: 'textarea',
+        label: 'Your Question',
+        description: 'What would you like to know about your documents?',
+        required: true,
+        placeholder: 'e.g., What are the main points about machine learning?'
+      },
+      {
+        name: 'document_type',
+        type: 'select',
+        label: 'Document Type',
+        description: 'Select the type of documents to search',
+        required: false,
+        options: ['All Documents', 'PDFs', 'CSVs', 'Web Pages'],
+        defaultValue: 'All Documents'
+      },
+      {
+        name: 'search_depth',
+        type: 'select',
+        label: 'Search Depth',
+        description: 'How thorough should the search be?',
+        required: false,
+        options: ['Quick', 'Standard', 'Deep'],
+        defaultValue: 'Standard'
+      }
+    ]
+  },
+  {
+    id: 'web-research-agent',
+    name: 'Web Research Agent',
+    description: 'AI agent that researches topics by searching the web and analyzing content',
+    category: 'Research',
+    tags: ['web-research', 'automation', 'information-gathering', 'data-collection'],
+    author: 'AgentFlow Team',
+    nodes: [
+      {
+        id: 'manual-1',
+        type: 'customNode',
+        position: { x: 100, y: 100 },
+        data: { nodeType: 'manual', label: 'Research Topic' }
+      },
+      {
+        id: 'search-1',
+        type: 'customNode',
+        position: { x: 400, y: 100 },
+        data: {
+          nodeType: 'web-search',
+          label: 'Web Search',
+          type: 'web-search',
+          config: {
+            query: '{{ input.research_topic }}',
+            searchEngine: 'google',
+            maxResults: '{{ input.max_results | default: 5 }}'
+          }
+        }
+      },
+      {
+        id: 'scraper-1',
+        type: 'customNode',
+        position: { x: 700, y: 100 },
+        data: {
+          nodeType: 'url-scraper',
+          label: 'Scrape Content',
+          type: 'url-scraper',
+          config: { url: '{{ search-1.results[0].url }}', selector: 'body' }
+        }
+      },
+      {
+        id: 'claude-1',
+        type: 'customNode',
+        position: { x: 1000, y: 100 },
+        data: {
+          nodeType: 'anthropic-chat',
+          label: 'Analyze & Summarize',
+          type: 'anthropic-chat',
+          config: {
+            messages: [
+              { role: 'user', content: 'Summarize what this page says about {{ input.research_topic }}:\n\n{{ scraper-1.content }}' }
+            ],
+            model: 'claude-3-5-sonnet-20241022',
+            temperature: 0.3
+          }
+        }
+      }
+    ],
+    edges: [
+      { id: 'e1-2', source: 'manual-1', target: 'search-1' },
+      { id: 'e2-3', source: 'search-1', target: 'scraper-1' },
+      { id: 'e3-4', source: 'scraper-1', target: 'claude-1' }
+    ],
+    inputs: [
+      {
+        name: 'research_topic',
+        type: 'textarea',
+        label: 'Research Topic',
+        description: 'What topic would you like me to research?',
+        required: true,
+        placeholder: 'e.g., Latest developments in quantum computing'
+      },
+      {
+        name: 'search_engines',
+        type: 'select',
+        label: 'Search Engines',
+        description: 'Which search engines to use',
+        required: false,
+        options: ['Google', 'Bing', 'DuckDuckGo', 'All'],
+        defaultValue: 'Google'
+      },
+      {
+        name: 'max_results',
+        type: 'number',
+        label: 'Maximum Results',
+        description: 'How many search results to analyze',
+        required: false,
+        defaultValue: 5
+      }
+    ]
+  },
+  {
+    id: 'ai-code-assistant',
+    name: 'AI Code Assistant',
+    description: 'Code review, generation, and optimization using multiple AI models',
+    category: 'Development',
+    tags: ['code-generation', 'code-review', 'optimization', 'ai-models'],
+    author: 'AgentFlow Team',
+    nodes: [
+      {
+        id: 'code-input',
+        type: 'customNode',
+        position: { x: 100, y: 100 },
+        data: { nodeType: 'manual', label: 'Code Input' }
+      },
+      {
+        id: 'code-executor',
+        type: 'customNode',
+        position: { x: 300, y: 100 },
+        data: {
+          nodeType: 'code-executor',
+          label: 'Syntax Check',
+          type: 'code-executor',
+          // The submitted code arrives on stdin and is only parsed, never run
+          config: {
+            code: [
+              'import ast, json, sys',
+              "source = json.load(sys.stdin)['input'].get('code', '')",
+              'try:',
+              "    tree = ast.parse(source)",
+              "    print(json.dumps({'valid': True, 'statements': len(tree.body)}))",
+              'except SyntaxError as error:',
+              "    print(json.dumps({'valid': False, 'error': f'{error.msg} (line {error.lineno})'}))",
+            ].join('\n'),
+            language: 'python',
+            timeout: 10
+          }
+        }
+      },
+      {
+        id: 'code-reviewer',
+        type: 'customNode',
+        position: { x: 500, y: 100 },
+        data: {
+          nodeType: 'openai-chat',
+          label: 'Code Reviewer',
+          type: 'openai-chat',
+          config: {
+            messages: [
+              { role: 'system', content: 'You are an expert code reviewer. Review the code for bugs, security issues, and improvements.' },
+              { role: 'user', content: 'Task: {{ input.task | default: "Code Review" }}\nLanguage: {{ input.language | default: "Python" }}\n\nReview this code:\n{{ input.code }}\n\nPython syntax check: {{ code-executor.result }}' }
+            ],
+            model: 'gpt-4o',
+            temperature: 0.2,
+            maxTokens: 1500
+          }
+        }
+      },
+      {
+        id: 'code-optimizer',
+        type: 'customNode',
+        position: { x: 700, y: 100 },
+        data: {
+          nodeType: 'anthropic-chat',
+          label: 'Code Optimizer',
+          type: 'anthropic-chat',
+          config: {
+            messages: [
+              { role: 'system', content: 'You are a code optimization expert. Suggest improvements and optimizations.' },
+              { role: 'user', content: 'Optimize this code:\n{{ input.code }}\n\nReview feedback: {{ code-reviewer.response }}' }
+            ],
+            model: 'claude-3-5-sonnet-20241022',
+            temperature: 0.3
+          }
+        }
+      }
+    ],
+    edges: [
+      { id: 'e1', source: 'code-input', target: 'code-executor' },
+      { id: 'e2', source: 'code-input', target: 'code-reviewer' },
+      { id: 'e3', source: 'code-executor', target: 'code-reviewer' },
+      { id: 'e4', source: 'code-reviewer', target: 'code-optimizer' }
+    ],
+    inputs: [
+      {
+        name: 'code',
+        type: 'textarea',
+        label: 'Your Code',
+        description: 'Paste the code you want me to review or optimize',
+        required: true,
+        placeholder: '// Paste your code here...'
+      },
+      {
+        name: 'language',
+        type: 'select',
+        label: 'Programming Language',
+        description: 'Select the programming language',
+        required: false,
+        options: ['Python', 'JavaScript', 'TypeScript', 'Java', 'C++', 'Go'],
+        defaultValue: 'Python'
+      },
+      {
+        name: 'task',
+        type: 'select',
+        label: 'What do you need?',
+        description: 'Select the type of assistance',
+        required: false,
+        options: ['Code Review', 'Optimization', 'Bug Fix', 'Documentation', 'All'],
+        defaultValue: 'Code Review'
+      }
+    ]
+  },
+  {
+    id: 'conversational-ai',
+    name: 'Conversational AI Chatbot',
+    description: 'Memory-enabled chatbot with conversation history and context',
+    category: 'Chatbots',
+    tags: ['chatbot', 'conversation', 'memory', 'context'],
+    author: 'AgentFlow Team',
+    nodes: [
+      {
+        id: 'user-input',
+        type: 'customNode',
+        position: { x: 100, y: 100 },
+        data: { nodeType: 'manual', label: 'User Input' }
+      },
+      {
+        id: 'conversation-memory',
+        type: 'customNode',
+        position: { x: 300, y: 100 },
+        data: {
+          nodeType: 'conversation-memory',
+          label: 'Conversation Memory',
+          type: 'conversation-memory',
+          config: { memoryKey: 'chat_history', maxTokens: 2000 }
+        }
+      },
+      {
+        id: 'ai-chat',
+        type: 'customNode',
+        position: { x: 500, y: 100 },
+        data: {
+          nodeType: 'openai-chat',
+          label: 'AI Chat',
+          type: 'openai-chat',
+          config: {
+            messages: [
+              { role: 'system', content: 'You are a {{ input.personality | default: "Helpful Assistant" | lower }}. Use conversation memory to maintain context.' },
+              { role: 'user', content: '{{ input.message }}' }
+            ],
+            model: 'gpt-4o',
+            temperature: 0.7,
+            maxTokens: 1000
+          }
+        }
+      },
+      {
+        id: 'response-output',
+        type: 'customNode',
+        position: { x: 700, y: 100 },
+        data: {
+          nodeType: 'webhook-response',
+          label: 'Response Output',
+          responseData: '{{ ai-chat.response }}'
+        }
+      }
+    ],
+    edges: [
+      { id: 'e1', source: 'user-input', target: 'conversation-memory' },
+      { id: 'e2', source: 'conversation-memory', target: 'ai-chat' },
+      { id: 'e3', source: 'ai-chat', target: 'response-output' }
+    ],
+    inputs: [
+      {
+        name: 'message',
+        type: 'textarea',
+        label: 'Your Message',
+        description: 'What would you like to chat about?',
+        required: true,
+        placeholder: 'Hello! How can you help me today?'
+      },
+      {
+        name: 'personality',
+        type: 'select',
+        label: 'AI Personality',
+        description: 'Choose how the AI should behave',
+        required: false,
+        options: ['Helpful Assistant', 'Creative Writer', 'Technical Expert', 'Friendly Chat'],
+        defaultValue: 'Helpful Assistant'
+      }
+    ]
+  }
+];
@@ -0,0 +1,71 @@
+import { EventEmitter } from "events";
+import { type NodeStatus } from "@shared/schema";
+
+export type ExecutionEvent =
+  | { type: 'execution.started' }
+  | { type: 'node.started'; nodeId: string; attempt: number }
+  | { type: 'node.token'; nodeId: string; delta: string }
+  | { type: 'node.completed'; nodeId: string; output: any }
+  | { type: 'node.failed'; nodeId: string; error: string }
+  // The node was still running when the execution was cancelled or hit its deadline
+  | { type: 'node.cancelled'; nodeId: string; status: 'cancelled' | 'timed_out' }
+  | { type: 'node.retrying'; nodeId: string; attempt: number; delayMs: number; errorClass: string }
+  | { type: 'node.skipped'; nodeId: string }
+  | { type: 'execution.finished'; status: string; error?: string | null; nodeStates: Record<string, NodeStatus> };
+
+export type ExecutionEventEnvelope = ExecutionEvent & {
+  executionId: string;
+  timestamp: string;
+};
+
+// How long events of a finished execution stay available for late subscribers
+const HISTORY_RETENTION_MS = 60_000;
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled', 'timed_out'];
+
+export function isTerminalStatus(status: string): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export class ExecutionEventBus {
+  private emitter = new EventEmitter();
+  private history = new Map<string, ExecutionEventEnvelope[]>();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  emit(executionId: string, event: ExecutionEvent): void {
+    const envelope = {
+      ...event,
+      executionId,
+      timestamp: new Date().toISOString(),
+    } as ExecutionEventEnvelope;
+
+    // Token deltas are only delivered live; replaying them would hold every streamed response in memory
+    if (event.type !== 'node.token') {
+      const events = this.history.get(executionId) || [];
+      events.push(envelope);
+      this.history.set(executionId, events);
+    }
+
+    if (event.type === 'execution.finished') {
+      setTimeout(() => this.history.delete(executionId), HISTORY_RETENTION_MS).unref();
+    }
+
+    this.emitter.emit(executionId, envelope);
+  }
+
+  getHistory(executionId: string): ExecutionEventEnvelope[] {
+    return this.history.get(executionId) || [];
+  }
+
+  subscribe(executionId: string, listener: (event: ExecutionEventEnvelope) => void): () => void {
+    this.emitter.on(executionId, listener);
+    return () => {
+      this.emitter.off(executionId, listener);
+    };
+  }
+}
+
+export const executionEvents = new ExecutionEventBus();
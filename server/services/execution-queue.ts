@@ -0,0 +1,118 @@
+import { type Workflow, type WorkflowNode, type WorkflowEdge, type WorkflowExecution, type WorkflowSettings, type NodeStatus } from "@shared/schema";
+import { workflowEngine, type RunOptions } from "./workflow-engine";
+import { getStorage } from "../config/storage";
+
+interface ExecutionJob {
+  execution: WorkflowExecution;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  settings: WorkflowSettings;
+  options: RunOptions;
+}
+
+// In-process FIFO queue that runs workflow executions in the background
+export class ExecutionQueue {
+  private pending: ExecutionJob[] = [];
+  private active = 0;
+
+  constructor(private concurrency: number) {}
+
+  async enqueue(workflow: Workflow, input?: any, options: RunOptions = {}): Promise<WorkflowExecution> {
+    const execution = await workflowEngine.createExecution(workflow.id, input, 'queued', undefined, options.version, options.triggerNodeId);
+
+    this.pending.push({
+      execution,
+      nodes: workflow.nodes as WorkflowNode[],
+      edges: workflow.edges as WorkflowEdge[],
+      settings: workflow.settings as WorkflowSettings,
+      options,
+    });
+    this.drain();
+
+    return execution;
+  }
+
+  // Pick up executions left behind by the previous process: queued runs are queued again with the
+  // version they were created for, runs that had already started are marked failed
+  async recover(): Promise<void> {
+    const storage = await getStorage();
+    const executions = await storage.getExecutionsByStatus(['queued', 'running']);
+
+    for (const execution of executions) {
+      if (execution.status === 'running') {
+        await workflowEngine.finishExecution(
+          execution.id,
+          'failed',
+          { error: 'Execution was interrupted by a server restart' },
+          execution.nodeStates as Record<string, NodeStatus>
+        );
+        continue;
+      }
+
+      const content = execution.version != null
+        ? await storage.getWorkflowVersion(execution.workflowId, execution.version)
+        : await storage.getWorkflow(execution.workflowId);
+      if (!content) {
+        await workflowEngine.finishExecution(execution.id, 'failed', {
+          error: 'Workflow to run no longer exists',
+        });
+        continue;
+      }
+
+      this.pending.push({
+        execution,
+        nodes: content.nodes as WorkflowNode[],
+        edges: content.edges as WorkflowEdge[],
+        settings: content.settings as WorkflowSettings,
+        options: {
+          version: execution.version ?? undefined,
+          triggerNodeId: execution.triggerNodeId ?? undefined,
+        },
+      });
+    }
+
+    if (executions.length > 0) {
+      console.log(`Recovered ${executions.length} unfinished execution(s) from the previous run`);
+    }
+    this.drain();
+  }
+
+  // Drop a job that has not started yet; running executions are cancelled through the engine
+  async cancel(executionId: string): Promise<boolean> {
+    const index = this.pending.findIndex(job => job.execution.id === executionId);
+    if (index === -1) return false;
+
+    this.pending.splice(index, 1);
+    await workflowEngine.finishExecution(executionId, 'cancelled', { error: 'Execution cancelled' });
+    return true;
+  }
+
+  getStats() {
+    return {
+      concurrency: this.concurrency,
+      active: this.active,
+      pending: this.pending.length,
+    };
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.active++;
+
+      // Failures are already recorded on the execution by the engine
+      workflowEngine.runExecution(job.execution, job.nodes, job.edges, job.settings, job.options)
+        .catch(error => {
+          console.error(`Queued execution ${job.execution.id} failed:`, error);
+        })
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+}
+
+export const executionQueue = new ExecutionQueue(
+  Math.max(1, parseInt(process.env.WORKFLOW_QUEUE_CONCURRENCY || '2', 10) || 2)
+);
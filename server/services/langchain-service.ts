@@ -14,24 +14,38 @@ import { ConversationChain } from '@langchain/chains';
 import { Tool } from '@langchain/core/tools';
 import { WebBrowser } from '@langchain/community/tools/webbrowser';
 import { Calculator } from '@langchain/community/tools/calculator';
+import { runCode, isSupportedLanguage, type CodeRunOptions } from './code-runner';
+import { classifyError, type ErrorClass } from './retry-policy';
 
 export interface DocumentProcessingResult {
   success: boolean;
   content?: string;
+  // One object per CSV row, keyed by column name
+  rows?: Record<string, string>[];
   metadata?: Record<string, any>;
   error?: string;
+  // Lets the workflow engine decide whether a failed call is worth retrying
+  errorClass?: ErrorClass;
 }
 
 export interface VectorStoreResult {
   success: boolean;
   vectorId?: string;
   error?: string;
+  errorClass?: ErrorClass;
 }
 
 export interface LLMResult {
   success: boolean;
   response?: string;
   error?: string;
+  errorClass?: ErrorClass;
+}
+
+export interface LLMCallOptions {
+  // Streams the completion and reports each token as it arrives
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
 }
 
 export class LangChainService {
@@ -87,7 +101,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error processing PDF'
+        error: error instanceof Error ? error.message : 'Unknown error processing PDF',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -101,10 +116,18 @@ export class LangChainService {
       
       const docs = await loader.load();
       const content = docs.map(doc => JSON.stringify(doc.pageContent)).join('\n');
+      // Each document holds one row as "column: value" lines
+      const rows = docs.map(doc => Object.fromEntries(
+        doc.pageContent.split('\n').map(line => {
+          const separator = line.indexOf(': ');
+          return separator === -1 ? [line, ''] : [line.slice(0, separator), line.slice(separator + 2)];
+        })
+      ));
       
       return {
         success: true,
         content,
+        rows,
         metadata: {
           source: filePath,
           delimiter,
@@ -114,7 +137,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error processing CSV'
+        error: error instanceof Error ? error.message : 'Unknown error processing CSV',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -142,7 +166,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error scraping URL'
+        error: error instanceof Error ? error.message : 'Unknown error scraping URL',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -167,7 +192,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error creating Pinecone store'
+        error: error instanceof Error ? error.message : 'Unknown error creating Pinecone store',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -186,7 +212,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error creating Weaviate store'
+        error: error instanceof Error ? error.message : 'Unknown error creating Weaviate store',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -221,7 +248,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error storing vectors'
+        error: error instanceof Error ? error.message : 'Unknown error storing vectors',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -231,17 +259,22 @@ export class LangChainService {
     messages: Array<{ role: string; content: string }>,
     model: string = 'gpt-4o',
     temperature: number = 0.7,
-    maxTokens: number = 1000
+    maxTokens: number = 1000,
+    { onToken, signal }: LLMCallOptions = {}
   ): Promise<LLMResult> {
     try {
       const chat = new ChatOpenAI({
         openAIApiKey: process.env.OPENAI_API_KEY,
         modelName: model,
         temperature,
-        maxTokens
+        maxTokens,
+        streaming: !!onToken
       });
       
-      const response = await chat.invoke(messages);
+      const response = await chat.invoke(messages, {
+        signal,
+        callbacks: onToken ? [{ handleLLMNewToken: onToken }] : undefined
+      });
       
       return {
         success: true,
@@ -250,7 +283,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error with OpenAI chat'
+        error: error instanceof Error ? error.message : 'Unknown error with OpenAI chat',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -258,16 +292,21 @@ export class LangChainService {
   async chatWithAnthropic(
     messages: Array<{ role: string; content: string }>,
     model: string = 'claude-3-5-sonnet-20241022',
-    temperature: number = 0.7
+    temperature: number = 0.7,
+    { onToken, signal }: LLMCallOptions = {}
   ): Promise<LLMResult> {
     try {
       const chat = new ChatAnthropic({
         apiKey: process.env.ANTHROPIC_API_KEY,
         model,
-        temperature
+        temperature,
+        streaming: !!onToken
       });
       
-      const response = await chat.invoke(messages);
+      const response = await chat.invoke(messages, {
+        signal,
+        callbacks: onToken ? [{ handleLLMNewToken: onToken }] : undefined
+      });
       
       return {
         success: true,
@@ -276,7 +315,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error with Anthropic chat'
+        error: error instanceof Error ? error.message : 'Unknown error with Anthropic chat',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -285,7 +325,7 @@ export class LangChainService {
   async createConversationMemory(
     memoryKey: string,
     maxTokens: number = 2000
-  ): Promise<{ success: boolean; memoryId?: string; error?: string }> {
+  ): Promise<{ success: boolean; memoryId?: string; error?: string; errorClass?: ErrorClass }> {
     try {
       const memory = new BufferMemory({
         memoryKey,
@@ -299,7 +339,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error creating memory'
+        error: error instanceof Error ? error.message : 'Unknown error creating memory',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -309,6 +350,7 @@ export class LangChainService {
     success: boolean;
     results?: Array<{ title: string; url: string; snippet: string }>;
     error?: string;
+    errorClass?: ErrorClass;
   }> {
     try {
       // In production, you would use actual search APIs
@@ -326,7 +368,8 @@ export class LangChainService {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error with web search'
+        error: error instanceof Error ? error.message : 'Unknown error with web search',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -334,30 +377,24 @@ export class LangChainService {
   async executeCode(
     code: string,
     language: string = 'python',
-    timeout: number = 30
+    timeout: number = 30,
+    options: Omit<CodeRunOptions, 'timeoutSeconds'> = {}
   ): Promise<{
     success: boolean;
     result?: any;
+    stdout?: string;
+    stderr?: string;
+    exitCode?: number | null;
+    timedOut?: boolean;
+    truncated?: boolean;
     error?: string;
   }> {
     try {
-      // In production, you would use a secure code execution environment
-      // For now, we'll simulate execution
-      if (language === 'python') {
-        // Simulate Python execution
-        return {
-          success: true,
-          result: `Simulated Python execution result: ${code.substring(0, 50)}...`
-        };
-      } else if (language === 'javascript') {
-        // Simulate JavaScript execution
-        return {
-          success: true,
-          result: `Simulated JavaScript execution result: ${code.substring(0, 50)}...`
-        };
-      } else {
+      if (!isSupportedLanguage(language)) {
         throw new Error(`Unsupported language: ${language}`);
       }
+
+      return await runCode(code, language, { ...options, timeoutSeconds: timeout });
     } catch (error) {
       return {
         success: false,
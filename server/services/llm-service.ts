@@ -33,6 +33,9 @@ export interface ChatCompletionOptions {
   systemPrompt?: string;
   temperature?: number;
   maxTokens?: number;
+  // Streams the completion and reports each content delta as it arrives (OpenAI only)
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
 }
 
 // Available LLM providers
@@ -106,17 +109,35 @@ export class LLMService {
       messages.push(...options.messages);
 
       const openaiClient = getOpenAIClient();
-      const response = await openaiClient.chat.completions.create({
+      const request = {
         model: options.model || "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
         messages,
         temperature: options.temperature || 0.7,
         max_tokens: options.maxTokens || 500,
-      });
+      };
+
+      if (options.onToken) {
+        const stream = await openaiClient.chat.completions.create(
+          { ...request, stream: true },
+          { signal: options.signal }
+        );
+        let content = "";
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content || "";
+          if (delta) {
+            content += delta;
+            options.onToken(delta);
+          }
+        }
+        return content;
+      }
+
+      const response = await openaiClient.chat.completions.create(request, { signal: options.signal });
 
       return response.choices[0].message.content || "";
     } catch (error) {
       console.error("OpenAI API error:", error);
-      throw new Error("Failed to process OpenAI chat completion");
+      throw new Error("Failed to process OpenAI chat completion", { cause: error });
     }
   }
 
@@ -145,7 +166,13 @@ export class LLMService {
     return `[Mistral ${options.model}] This provider needs to be configured with API key and SDK.`;
   }
 
-  async generateResponse(provider: string, model: string, prompt: string, context?: any): Promise<string> {
+  async generateResponse(
+    provider: string,
+    model: string,
+    prompt: string,
+    context?: any,
+    options: Pick<ChatCompletionOptions, 'onToken' | 'signal'> = {}
+  ): Promise<string> {
     const systemPrompt = `You are a helpful AI assistant. ${context ? `Context: ${JSON.stringify(context)}` : ''}`;
     
     return this.chat({
@@ -155,9 +182,38 @@ export class LLMService {
       systemPrompt,
       temperature: 0.7,
       maxTokens: 500,
+      ...options,
     });
   }
 
+  // Pick the category that best fits the text; null when the model finds none that fits
+  async classify(
+    provider: string,
+    model: string,
+    text: string,
+    categories: Array<{ name: string; description?: string }>,
+    options: Pick<ChatCompletionOptions, 'signal'> = {}
+  ): Promise<string | null> {
+    const list = categories
+      .map(category => category.description ? `- ${category.name}: ${category.description}` : `- ${category.name}`)
+      .join('\n');
+
+    const answer = await this.chat({
+      provider,
+      model,
+      messages: [{ role: 'user', content: text }],
+      systemPrompt: `Classify the user's message into exactly one of these categories:\n${list}\n\nAnswer with the category name only, or "none" if no category fits.`,
+      temperature: 0,
+      maxTokens: 20,
+      ...options,
+    });
+
+    // Models sometimes quote the name or add a full stop
+    const normalized = answer.trim().replace(/^["'`]+|["'`.]+$/g, '').toLowerCase();
+    const match = categories.find(category => category.name.toLowerCase() === normalized);
+    return match ? match.name : null;
+  }
+
   // Keep backward compatibility with existing OpenAI methods
   async analyzeSentiment(text: string): Promise<{ sentiment: string; score: number; confidence: number }> {
     try {
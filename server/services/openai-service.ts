@@ -25,6 +25,9 @@ export interface ChatCompletionOptions {
   maxTokens?: number;
   systemPrompt?: string;
   messages: ChatMessage[];
+  // Streams the completion and reports each content delta as it arrives
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
 }
 
 export class OpenAIService {
@@ -42,17 +45,35 @@ export class OpenAIService {
       messages.push(...options.messages);
 
       const openaiClient = getOpenAIClient();
-      const response = await openaiClient.chat.completions.create({
+      const request = {
         model: options.model || "gpt-4o",
         messages,
         temperature: options.temperature || 0.7,
         max_tokens: options.maxTokens || 150,
-      });
+      };
+
+      if (options.onToken) {
+        const stream = await openaiClient.chat.completions.create(
+          { ...request, stream: true },
+          { signal: options.signal }
+        );
+        let content = "";
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content || "";
+          if (delta) {
+            content += delta;
+            options.onToken(delta);
+          }
+        }
+        return content;
+      }
+
+      const response = await openaiClient.chat.completions.create(request, { signal: options.signal });
 
       return response.choices[0].message.content || "";
     } catch (error) {
       console.error("OpenAI API error:", error);
-      throw new Error("Failed to process chat completion");
+      throw new Error("Failed to process chat completion", { cause: error });
     }
   }
 
@@ -105,7 +126,7 @@ export class OpenAIService {
       return response.choices[0].message.content || "";
     } catch (error) {
       console.error("Response generation error:", error);
-      throw new Error("Failed to generate response");
+      throw new Error("Failed to generate response", { cause: error });
     }
   }
 }
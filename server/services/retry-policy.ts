@@ -0,0 +1,56 @@
+import { RetryPolicySchema, type RetryPolicy, type RetryableError } from "@shared/schema";
+
+export type ErrorClass = RetryableError | 'unknown';
+
+const TIMEOUT_CODES = ['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT'];
+const NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+// Services and LangChain often only surface a message, so fall back to matching on it
+const MESSAGE_PATTERNS: Array<[RegExp, RetryableError]> = [
+  [/\b429\b|rate.?limit|too many requests/i, 'rate_limit'],
+  [/timed? ?out|timeout/i, 'timeout'],
+  [/ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network|connection error/i, 'network'],
+  [/\b50[0-4]\b|overloaded|server error/i, 'server_error'],
+];
+
+// Invalid policies fall back to the default of a single attempt
+export function getRetryPolicy(config: unknown): RetryPolicy {
+  const parsed = RetryPolicySchema.safeParse(config ?? {});
+  return parsed.success ? parsed.data : RetryPolicySchema.parse({});
+}
+
+// Classify an error or error message, following the `cause` chain of wrapped errors
+export function classifyError(error: unknown): ErrorClass {
+  let current: any = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const errorClass = classifySingleError(current);
+    if (errorClass !== 'unknown') return errorClass;
+    current = current.cause;
+  }
+  return 'unknown';
+}
+
+function classifySingleError(error: any): ErrorClass {
+  if (typeof error === 'string') return classifyMessage(error);
+
+  const status = typeof error.status === 'number' ? error.status : undefined;
+  if (status === 429) return 'rate_limit';
+  if (status === 408) return 'timeout';
+  if (status !== undefined && status >= 500) return 'server_error';
+
+  if (error.name === 'APIConnectionTimeoutError' || TIMEOUT_CODES.includes(error.code)) return 'timeout';
+  if (error.name === 'APIConnectionError' || NETWORK_CODES.includes(error.code)) return 'network';
+
+  return classifyMessage(String(error.message || ''));
+}
+
+function classifyMessage(message: string): ErrorClass {
+  const match = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+  return match ? match[1] : 'unknown';
+}
+
+// Exponential backoff capped at backoffCapMs; jitter picks a delay in the upper half of the window
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.backoffCapMs, policy.backoffBaseMs * 2 ** (attempt - 1));
+  return Math.round(policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay);
+}
@@ -0,0 +1,224 @@
+import { ScheduleTriggerSchema, type ScheduleTrigger, type Workflow, type WorkflowNode, type WorkflowSchedule } from "@shared/schema";
+import { getStorage } from "../config/storage";
+import { executionQueue } from "./execution-queue";
+import { isTerminalStatus } from "./execution-events";
+import { getNextCronRun, isValidTimeZone } from "./cron";
+import { getNodeType } from "./workflow-graph";
+import { getPublishedWorkflow } from "./workflow-versions";
+
+interface ScheduledTrigger {
+  workflowId: string;
+  nodeId: string;
+  config: ScheduleTrigger;
+  nextRunAt: Date;
+  timer?: NodeJS.Timeout;
+  // Execution started by the last run, checked before starting another so runs never overlap
+  runningExecutionId?: string;
+}
+
+// setTimeout fires immediately for delays above this, so longer waits are re-armed in steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Read the schedule settings of a trigger node, throwing when the time zone is invalid or the cron
+// expression is invalid or never matches
+export function getScheduleConfig(node: WorkflowNode): ScheduleTrigger {
+  const config = ScheduleTriggerSchema.parse(node.data);
+  if (config.mode === 'cron') {
+    if (!isValidTimeZone(config.timezone)) {
+      throw new Error(`Unknown time zone "${config.timezone}"`);
+    }
+    getNextCronRun(config.cron, new Date(), config.timezone);
+  }
+  return config;
+}
+
+// In-process scheduler that starts active workflows from their schedule trigger nodes. Run times are
+// kept in storage, so after a restart schedules carry on from where they were; runs missed while the
+// server was down are not made up.
+export class WorkflowScheduler {
+  private triggers = new Map<string, ScheduledTrigger>();
+
+  // Load every active workflow with schedule nodes; called once at startup
+  async start(): Promise<void> {
+    const storage = await getStorage();
+    const workflows = await storage.getWorkflows();
+
+    for (const workflow of workflows) {
+      await this.sync(workflow);
+    }
+
+    if (this.triggers.size > 0) {
+      console.log(`⏰ Scheduler started with ${this.triggers.size} schedule(s)`);
+    }
+  }
+
+  stop(): void {
+    Array.from(this.triggers.values()).forEach(trigger => clearTimeout(trigger.timer));
+    this.triggers.clear();
+  }
+
+  // Bring the timers of a workflow in line with the schedule nodes of its published version; call
+  // after publishing, activating or deactivating
+  async sync(workflow: Workflow): Promise<void> {
+    try {
+      const storage = await getStorage();
+      const workflowNodes = (await getPublishedWorkflow(workflow)).nodes as WorkflowNode[];
+      const scheduleNodes = workflow.isActive ? workflowNodes.filter(node => getNodeType(node) === 'schedule') : [];
+      const persisted = await storage.getWorkflowSchedules(workflow.id);
+      const armed = new Set<string>();
+
+      for (const node of scheduleNodes) {
+        const existing = this.triggers.get(triggerKey(workflow.id, node.id));
+
+        // A node that cannot be armed is left off; the other schedule nodes are still armed
+        try {
+          const config = getScheduleConfig(node);
+          if (existing && JSON.stringify(existing.config) === JSON.stringify(config)) {
+            armed.add(node.id);
+            continue;
+          }
+          if (existing) this.clear(existing);
+
+          await this.arm({
+            workflowId: workflow.id,
+            nodeId: node.id,
+            config,
+            nextRunAt: getNextRun(config, new Date(), persisted.find(schedule => schedule.nodeId === node.id)),
+            runningExecutionId: existing?.runningExecutionId,
+          });
+          armed.add(node.id);
+        } catch (error) {
+          console.error(`Schedule node ${node.id} of workflow ${workflow.id} could not be scheduled:`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      for (const trigger of this.getTriggers(workflow.id)) {
+        if (!armed.has(trigger.nodeId)) this.clear(trigger);
+      }
+
+      // State of removed nodes is dropped; nodes that are only paused keep their last run
+      for (const schedule of persisted) {
+        if (armed.has(schedule.nodeId)) continue;
+        if (!workflowNodes.some(node => node.id === schedule.nodeId)) {
+          await storage.deleteWorkflowSchedule(schedule.id);
+        } else if (schedule.nextRunAt) {
+          await storage.saveWorkflowSchedule({ workflowId: workflow.id, nodeId: schedule.nodeId, nextRunAt: null });
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to schedule workflow ${workflow.id}:`, error);
+    }
+  }
+
+  // Stop the timers of a deleted workflow; its stored schedules are removed with it
+  unschedule(workflowId: string): void {
+    this.getTriggers(workflowId).forEach(trigger => this.clear(trigger));
+  }
+
+  async getSchedules(workflowId: string): Promise<WorkflowSchedule[]> {
+    const storage = await getStorage();
+    return storage.getWorkflowSchedules(workflowId);
+  }
+
+  private getTriggers(workflowId: string): ScheduledTrigger[] {
+    return Array.from(this.triggers.values()).filter(trigger => trigger.workflowId === workflowId);
+  }
+
+  private clear(trigger: ScheduledTrigger): void {
+    clearTimeout(trigger.timer);
+    this.triggers.delete(triggerKey(trigger.workflowId, trigger.nodeId));
+  }
+
+  private async arm(trigger: ScheduledTrigger): Promise<void> {
+    this.triggers.set(triggerKey(trigger.workflowId, trigger.nodeId), trigger);
+    this.setTimer(trigger);
+
+    const storage = await getStorage();
+    await storage.saveWorkflowSchedule({
+      workflowId: trigger.workflowId,
+      nodeId: trigger.nodeId,
+      nextRunAt: trigger.nextRunAt,
+    });
+  }
+
+  private setTimer(trigger: ScheduledTrigger): void {
+    const delay = Math.min(Math.max(0, trigger.nextRunAt.getTime() - Date.now()), MAX_TIMER_DELAY_MS);
+    trigger.timer = setTimeout(() => {
+      if (Date.now() < trigger.nextRunAt.getTime()) {
+        this.setTimer(trigger);
+        return;
+      }
+      this.fire(trigger).catch(error => {
+        console.error(`Scheduled run of workflow ${trigger.workflowId} failed:`, error);
+      });
+    }, delay);
+    // Pending schedules alone should not keep the process alive
+    trigger.timer.unref();
+  }
+
+  private async fire(trigger: ScheduledTrigger): Promise<void> {
+    const scheduledAt = trigger.nextRunAt;
+    const storage = await getStorage();
+
+    // Arm the next run before starting this one so a slow start cannot delay it
+    if (this.triggers.get(triggerKey(trigger.workflowId, trigger.nodeId)) !== trigger) return;
+    trigger.nextRunAt = getNextRun(trigger.config, new Date(Math.max(Date.now(), scheduledAt.getTime())));
+    this.setTimer(trigger);
+
+    const saved = await storage.getWorkflow(trigger.workflowId);
+    if (!saved || !saved.isActive) {
+      this.clear(trigger);
+      return;
+    }
+    const workflow = await getPublishedWorkflow(saved);
+
+    if (trigger.runningExecutionId) {
+      const previous = await storage.getWorkflowExecution(trigger.runningExecutionId);
+      if (previous && !isTerminalStatus(previous.status)) {
+        console.warn(`Skipping scheduled run of workflow ${workflow.id}: execution ${previous.id} is still ${previous.status}`);
+        await storage.saveWorkflowSchedule({
+          workflowId: trigger.workflowId,
+          nodeId: trigger.nodeId,
+          nextRunAt: trigger.nextRunAt,
+        });
+        return;
+      }
+    }
+
+    const execution = await executionQueue.enqueue(
+      workflow,
+      { scheduledAt: scheduledAt.toISOString(), nodeId: trigger.nodeId },
+      { triggerNodeId: trigger.nodeId, version: workflow.publishedVersion ?? undefined }
+    );
+    trigger.runningExecutionId = execution.id;
+
+    await storage.saveWorkflowSchedule({
+      workflowId: trigger.workflowId,
+      nodeId: trigger.nodeId,
+      lastRunAt: scheduledAt,
+      nextRunAt: trigger.nextRunAt,
+      lastExecutionId: execution.id,
+    });
+  }
+}
+
+function triggerKey(workflowId: string, nodeId: string): string {
+  return `${workflowId}:${nodeId}`;
+}
+
+// Cron schedules run at the next matching minute. Intervals keep their cadence from the last run
+// when it is still ahead, and otherwise start counting from now.
+function getNextRun(config: ScheduleTrigger, after: Date, state?: WorkflowSchedule): Date {
+  if (config.mode === 'cron') {
+    return getNextCronRun(config.cron, after, config.timezone);
+  }
+
+  const intervalMs = config.intervalSeconds * 1000;
+  if (state?.lastRunAt) {
+    const next = new Date(state.lastRunAt).getTime() + intervalMs;
+    if (next > after.getTime()) return new Date(next);
+  }
+  return new Date(after.getTime() + intervalMs);
+}
+
+export const workflowScheduler = new WorkflowScheduler();
@@ -0,0 +1,158 @@
+import { randomUUID } from "crypto";
+import {
+  type InsertWorkflowTemplate,
+  type Workflow,
+  type WorkflowTemplate,
+  type WorkflowNode,
+  type WorkflowEdge,
+  type WorkflowSettings,
+} from "@shared/schema";
+import { getStorage } from "../config/storage";
+import { DEFAULT_TEMPLATES } from "./default-templates";
+import { getNodeType } from "./workflow-graph";
+import { isDeepEqual, recordWorkflowVersion } from "./workflow-versions";
+import { stripSecrets } from "./workflow-bundle";
+import { renameNodeReferences } from "./template-expressions";
+
+export interface TemplateFilters {
+  category?: string;
+  tag?: string;
+  // Matched against name, description and tags
+  search?: string;
+}
+
+// Fields that make up what a template builds; changing any of them raises the version
+const CONTENT_FIELDS = ['nodes', 'edges', 'settings', 'inputs'] as const;
+
+// Add built-in templates that are missing from the catalog and bring existing ones up to date with the
+// definitions shipped in this release. Built-ins are read-only through the API, so nothing is lost, and
+// a changed definition raises the template's version.
+export async function seedDefaultTemplates(): Promise<void> {
+  const storage = await getStorage();
+  for (const { id, ...template } of DEFAULT_TEMPLATES) {
+    const existing = await storage.getWorkflowTemplate(id);
+    if (existing) {
+      const changed = Object.entries(template).some(
+        ([field, value]) => !isDeepEqual(value, existing[field as keyof WorkflowTemplate])
+      );
+      if (changed) await updateTemplate(existing, template);
+    } else {
+      await storage.createWorkflowTemplate({ ...template, id, userId: null });
+    }
+  }
+}
+
+export async function findTemplates(filters: TemplateFilters = {}): Promise<WorkflowTemplate[]> {
+  const storage = await getStorage();
+  const templates = await storage.getWorkflowTemplates();
+  const search = filters.search?.trim().toLowerCase();
+
+  return templates.filter(template => {
+    const tags = template.tags as string[];
+    if (filters.category && template.category !== filters.category) return false;
+    if (filters.tag && !tags.includes(filters.tag)) return false;
+    if (search) {
+      const text = [template.name, template.description || '', ...tags].join(' ').toLowerCase();
+      if (!text.includes(search)) return false;
+    }
+    return true;
+  });
+}
+
+export async function updateTemplate(
+  template: WorkflowTemplate,
+  updates: Partial<InsertWorkflowTemplate>
+): Promise<WorkflowTemplate | undefined> {
+  const storage = await getStorage();
+  const changed = CONTENT_FIELDS.some(field => updates[field] !== undefined && !isDeepEqual(updates[field], template[field]));
+  return storage.updateWorkflowTemplate(template.id, {
+    ...updates,
+    ...(changed ? { version: template.version + 1 } : {}),
+  });
+}
+
+// Capture a workflow's draft as a new template. Secrets are blanked since the catalog is shared, and
+// the error workflow setting is dropped because it points at one of the owner's workflows.
+export async function saveWorkflowAsTemplate(
+  workflow: Workflow,
+  details: Pick<InsertWorkflowTemplate, 'name' | 'description' | 'category' | 'tags' | 'author' | 'inputs'>,
+  userId: string
+): Promise<WorkflowTemplate> {
+  const storage = await getStorage();
+  const { errorWorkflowId, ...settings } = (workflow.settings as WorkflowSettings) || {};
+
+  return storage.createWorkflowTemplate({
+    ...details,
+    userId,
+    nodes: (workflow.nodes as WorkflowNode[]).map(node => ({
+      id: node.id,
+      type: node.type,
+      position: node.position,
+      data: stripSecrets(node.data || {}, () => {}),
+    })),
+    edges: (workflow.edges as WorkflowEdge[]).map(edge => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      ...(edge.sourceHandle ? { sourceHandle: edge.sourceHandle } : {}),
+      ...(edge.targetHandle ? { targetHandle: edge.targetHandle } : {}),
+    })),
+    settings,
+  });
+}
+
+// Create a workflow from a template. Nodes and edges get new ids, and expressions that refer to
+// nodes by id are rewritten to match; code in code nodes is not. The workflow starts as an
+// unpublished draft.
+export async function instantiateTemplate(
+  template: WorkflowTemplate,
+  userId: string,
+  name?: string
+): Promise<Workflow> {
+  const storage = await getStorage();
+  const templateNodes = template.nodes as WorkflowNode[];
+  const nodeIds = new Map(
+    templateNodes.map(node => [node.id, `${getNodeType(node)}-${randomUUID().slice(0, 8)}`])
+  );
+
+  const nodes = templateNodes.map(node => ({
+    ...node,
+    id: nodeIds.get(node.id)!,
+    data: renameReferences(node.data || {}, nodeIds),
+  }));
+  const edges = (template.edges as WorkflowEdge[])
+    .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .map(edge => ({
+      ...edge,
+      id: `edge-${randomUUID().slice(0, 8)}`,
+      source: nodeIds.get(edge.source)!,
+      target: nodeIds.get(edge.target)!,
+    }));
+
+  const workflow = await storage.createWorkflow({
+    name: name || template.name,
+    description: template.description,
+    nodes,
+    edges,
+    settings: template.settings as WorkflowSettings,
+    templateId: template.id,
+    userId,
+  });
+  await recordWorkflowVersion(workflow, `Created from template ${template.name} (v${template.version})`);
+  return workflow;
+}
+
+function renameReferences<T>(value: T, nodeIds: Map<string, string>): T {
+  if (typeof value === 'string') {
+    return renameNodeReferences(value, nodeIds) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renameReferences(item, nodeIds)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renameReferences(item, nodeIds)])
+    ) as T;
+  }
+  return value;
+}
@@ -0,0 +1,232 @@
+// Template expressions used in node fields, e.g. {{ openai-1.response | truncate: 200 }}
+//
+// An expression is a path followed by optional filters. Paths start at `input` (the workflow
+// input), `previousResults` (every node result by id), a node id, or a top-level input key,
+// and continue with `.key` or `[0]` / `["key"]` segments. Expressions are only evaluated as
+// data lookups; nothing in a template is ever executed as code.
+
+export interface TemplateScope {
+  input: Record<string, any>;
+  previousResults: Record<string, any>;
+}
+
+type FilterArg = string | number | boolean | null;
+type Filter = (value: any, ...args: FilterArg[]) => any;
+
+interface ParsedExpression {
+  path: Array<string | number>;
+  filters: Array<{ name: string; args: FilterArg[] }>;
+}
+
+const FILTERS: Record<string, Filter> = {
+  default: (value, fallback = '') => isMissing(value) ? fallback : value,
+  json: (value, indent) => JSON.stringify(value, null, typeof indent === 'number' ? indent : undefined),
+  upper: value => stringify(value).toUpperCase(),
+  lower: value => stringify(value).toLowerCase(),
+  trim: value => stringify(value).trim(),
+  truncate: (value, length = 100, suffix = '...') => {
+    const text = stringify(value);
+    const max = Number(length);
+    return text.length > max ? text.slice(0, max) + String(suffix) : text;
+  },
+  join: (value, separator = ', ') => Array.isArray(value) ? value.map(stringify).join(String(separator)) : value,
+};
+
+const EXPRESSION_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+// Render every {{ expression }} in a string. Text that does not parse as an expression is left as is,
+// and so are expressions whose path cannot be resolved and that have no default.
+export function renderTemplate(template: string, scope: TemplateScope): string {
+  return template.replace(EXPRESSION_PATTERN, (match, source: string) => {
+    const expression = parseExpression(source);
+    if (!expression) return match;
+
+    let value = resolvePath(expression.path, scope);
+    const hasDefault = expression.filters.some(filter => filter.name === 'default');
+    if (value === undefined && !hasDefault) return match;
+
+    for (const { name, args } of expression.filters) {
+      const filter = FILTERS[name];
+      if (!filter) {
+        throw new Error(`Unknown template filter "${name}" in ${match}`);
+      }
+      value = filter(value, ...args);
+    }
+
+    return stringify(value);
+  });
+}
+
+// A template that is exactly one expression resolves to the raw value, so objects and arrays keep
+// their shape; any other template is rendered to a string
+export function resolveTemplateValue(template: string, scope: TemplateScope): any {
+  const match = /^\s*\{\{([\s\S]*?)\}\}\s*$/.exec(template);
+  const expression = match && parseExpression(match[1]);
+  if (!expression || expression.filters.length > 0) {
+    return renderTemplate(template, scope);
+  }
+  return resolvePath(expression.path, scope);
+}
+
+// Render templates in every string of a value, descending into arrays and plain objects
+export function renderTemplates<T>(value: T, scope: TemplateScope): T {
+  if (typeof value === 'string') {
+    return renderTemplate(value, scope) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplates(item, scope)) as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplates(item, scope)])
+    ) as T;
+  }
+  return value;
+}
+
+// Point expressions at renamed nodes, e.g. when a workflow is copied with new node ids. Both
+// `{{ nodeId.path }}` and `{{ previousResults.nodeId }}` are rewritten; other text is left as is.
+export function renameNodeReferences(template: string, nodeIds: Map<string, string>): string {
+  return template.replace(EXPRESSION_PATTERN, (match, source: string) => {
+    const expression = parseExpression(source);
+    if (!expression) return match;
+
+    const [root, nodeId] = expression.path;
+    if (typeof root === 'string' && nodeIds.has(root)) {
+      return match.replace(root, nodeIds.get(root)!);
+    }
+    if (root === 'previousResults' && typeof nodeId === 'string' && nodeIds.has(nodeId)) {
+      // The node id follows previousResults either as `.id` or as a quoted `["id"]` segment
+      const rest = match.slice(match.indexOf('previousResults') + 'previousResults'.length);
+      return match.slice(0, match.length - rest.length) + rest.replace(nodeId, nodeIds.get(nodeId)!);
+    }
+    return match;
+  });
+}
+
+function resolvePath(path: Array<string | number>, scope: TemplateScope): any {
+  const [root, ...rest] = path;
+
+  let value: any;
+  if (root === 'input') {
+    value = scope.input;
+  } else if (root === 'previousResults') {
+    value = scope.previousResults;
+  } else if (typeof root === 'string' && Object.prototype.hasOwnProperty.call(scope.previousResults, root)) {
+    value = scope.previousResults[root];
+  } else if (Object.prototype.hasOwnProperty.call(scope.input, root)) {
+    value = scope.input[root];
+  }
+
+  for (const segment of rest) {
+    if (value === null || value === undefined) return undefined;
+    // Only own properties are reachable, so templates cannot walk into prototypes
+    if (!Object.prototype.hasOwnProperty.call(Object(value), segment)) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function stringify(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Tokens: identifiers (which may contain hyphens, for node ids), numbers, quoted strings and punctuation
+const TOKEN_PATTERN = /^\s*(?:([A-Za-z_$][\w$-]*)|(-?\d+(?:\.\d+)?)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([.[\]|:,]))/;
+
+type Token =
+  | { kind: 'identifier'; value: string }
+  | { kind: 'literal'; value: FilterArg }
+  | { kind: 'punctuation'; value: string };
+
+function tokenize(source: string): Token[] | null {
+  const tokens: Token[] = [];
+  let rest = source;
+
+  while (rest.trim()) {
+    const match = TOKEN_PATTERN.exec(rest);
+    if (!match) return null;
+    rest = rest.slice(match[0].length);
+
+    const [, identifier, number, doubleQuoted, singleQuoted, punctuation] = match;
+    if (identifier !== undefined) {
+      if (identifier === 'true' || identifier === 'false') {
+        tokens.push({ kind: 'literal', value: identifier === 'true' });
+      } else if (identifier === 'null') {
+        tokens.push({ kind: 'literal', value: null });
+      } else {
+        tokens.push({ kind: 'identifier', value: identifier });
+      }
+    } else if (number !== undefined) {
+      tokens.push({ kind: 'literal', value: Number(number) });
+    } else if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+      tokens.push({ kind: 'literal', value: unescape(doubleQuoted ?? singleQuoted) });
+    } else {
+      tokens.push({ kind: 'punctuation', value: punctuation });
+    }
+  }
+  return tokens;
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\(.)/g, (_, char: string) => char === 'n' ? '\n' : char === 't' ? '\t' : char);
+}
+
+function parseExpression(source: string): ParsedExpression | null {
+  const tokens = tokenize(source);
+  if (!tokens || tokens.length === 0) return null;
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const isPunctuation = (value: string) => peek()?.kind === 'punctuation' && peek().value === value;
+
+  const root = tokens[position++];
+  if (root.kind !== 'identifier') return null;
+  const path: Array<string | number> = [root.value];
+
+  while (isPunctuation('.') || isPunctuation('[')) {
+    const separator = tokens[position++].value;
+    const segment = tokens[position++];
+    if (!segment) return null;
+
+    if (separator === '.') {
+      // Numeric segments after a dot are array indexes, e.g. items.0.name; `rows.0.1` tokenizes as 0.1
+      if (segment.kind === 'identifier') path.push(segment.value);
+      else if (segment.kind === 'literal' && typeof segment.value === 'number') path.push(...String(segment.value).split('.').map(Number));
+      else return null;
+    } else {
+      if (segment.kind !== 'literal' || (typeof segment.value !== 'string' && typeof segment.value !== 'number')) {
+        return null;
+      }
+      path.push(segment.value);
+      if (!isPunctuation(']')) return null;
+      position++;
+    }
+  }
+
+  const filters: ParsedExpression['filters'] = [];
+  while (isPunctuation('|')) {
+    position++;
+    const name = tokens[position++];
+    if (!name || name.kind !== 'identifier') return null;
+
+    const args: FilterArg[] = [];
+    if (isPunctuation(':')) {
+      do {
+        position++;
+        const arg = tokens[position++];
+        if (!arg || arg.kind !== 'literal') return null;
+        args.push(arg.value);
+      } while (isPunctuation(','));
+    }
+    filters.push({ name: name.value, args });
+  }
+
+  return position === tokens.length ? { path, filters } : null;
+}
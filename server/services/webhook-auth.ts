@@ -0,0 +1,58 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+
+// How a webhook node checks its callers: not at all, by a shared secret sent in a header,
+// or by an HMAC-SHA256 signature of the raw request body
+export type WebhookAuthentication = 'none' | 'header' | 'hmac';
+
+export interface WebhookAuthConfig {
+  authentication?: WebhookAuthentication;
+  secret?: string;
+  headerName?: string;
+}
+
+export const DEFAULT_SECRET_HEADER = 'x-webhook-secret';
+export const DEFAULT_SIGNATURE_HEADER = 'x-webhook-signature';
+
+// Node paths are stored with or without slashes, e.g. "/orders/new" or "orders/new"
+export function normalizeWebhookPath(path: string): string {
+  return path.replace(/^\/+|\/+$/g, '');
+}
+
+// Header that carries the secret or signature for a webhook node, lowercased like Node's header keys
+export function getAuthHeaderName(config: WebhookAuthConfig): string | undefined {
+  if (config.authentication === 'header') return (config.headerName || DEFAULT_SECRET_HEADER).toLowerCase();
+  if (config.authentication === 'hmac') return (config.headerName || DEFAULT_SIGNATURE_HEADER).toLowerCase();
+  return undefined;
+}
+
+// Returns why a request is rejected, or null when it passes
+export function verifyWebhookRequest(
+  config: WebhookAuthConfig,
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer
+): string | null {
+  const headerName = getAuthHeaderName(config);
+  if (!headerName) return null;
+
+  // A node that asks for authentication but has no secret rejects everything rather than nothing
+  if (!config.secret) return 'Webhook secret is not configured';
+
+  const received = headers[headerName];
+  if (typeof received !== 'string' || !received) return `Missing ${headerName} header`;
+
+  if (config.authentication === 'header') {
+    return safeEqual(received, config.secret) ? null : 'Invalid webhook secret';
+  }
+
+  // Accepts a bare hex digest or one prefixed with "sha256=", as GitHub and others send it
+  const signature = received.replace(/^sha256=/i, '').toLowerCase();
+  const expected = createHmac('sha256', config.secret).update(rawBody).digest('hex');
+  return safeEqual(signature, expected) ? null : 'Invalid webhook signature';
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,18 @@
+import { type Workflow } from "@shared/schema";
+import { getStorage } from "../config/storage";
+
+// The workflow when the user owns it or it has been shared with them. Anything else comes back as
+// undefined, so callers answer not found without revealing that the workflow exists.
+export async function getAccessibleWorkflow(id: string, userId: string): Promise<Workflow | undefined> {
+  const storage = await getStorage();
+  const owned = await storage.getWorkflow(id, userId);
+  if (owned) return owned;
+
+  const shares = await storage.getWorkflowShares(id);
+  return shares.some(share => share.userId === userId) ? storage.getWorkflow(id) : undefined;
+}
+
+// Only the owner can change a workflow, publish it, switch it on or off and manage who it is shared with
+export function isWorkflowOwner(workflow: Workflow, userId: string): boolean {
+  return workflow.userId === userId;
+}
@@ -0,0 +1,222 @@
+import {
+  WorkflowBundleSchema,
+  WORKFLOW_BUNDLE_FORMAT_VERSION,
+  type BundledNode,
+  type BundledWorkflow,
+  type CredentialPlaceholder,
+  type Workflow,
+  type WorkflowBundle,
+  type WorkflowNode,
+  type WorkflowEdge,
+  type WorkflowSettings,
+} from "@shared/schema";
+import { getStorage } from "../config/storage";
+import { getNodeType } from "./workflow-graph";
+import { getPublishedWorkflow, recordWorkflowVersion } from "./workflow-versions";
+import { getAccessibleWorkflow } from "./workflow-access";
+
+// Node data fields holding secrets, which are exported as credential placeholders instead of values
+const SECRET_FIELD_PATTERN = /^(secret|password|token)$|(secret|password|api[-_]?key|access[-_]?token|auth[-_]?token|private[-_]?key)$/i;
+
+export interface ImportedWorkflowBundle {
+  workflow: Workflow;
+  // Every workflow created, with the id it had in the bundle
+  workflows: Array<{ id: string; name: string; bundleId: string }>;
+  // Secrets to fill in, pointing at the imported workflows and nodes
+  credentials: Array<{ workflowId: string; nodeId: string; field: string; filled: boolean }>;
+}
+
+// Build a bundle of the workflow and every workflow it calls through execute-workflow nodes or its error
+// workflow setting. Published workflows are exported as published unless `draft` is set, and with a
+// `userId` only workflows that user owns or has been shared are included. Returns undefined when the workflow does not exist,
+// and throws a ZodError when a node cannot be exported.
+export async function exportWorkflowBundle(
+  workflowId: string,
+  { draft = false, userId }: { draft?: boolean; userId?: string } = {}
+): Promise<WorkflowBundle | undefined> {
+  const storage = await getStorage();
+  const findWorkflow = (id: string) => userId ? getAccessibleWorkflow(id, userId) : storage.getWorkflow(id);
+  const root = await findWorkflow(workflowId);
+  if (!root) return undefined;
+
+  const workflows: BundledWorkflow[] = [];
+  const credentials: CredentialPlaceholder[] = [];
+  const pending = [root];
+  const seen = new Set([root.id]);
+
+  while (pending.length > 0) {
+    const saved = pending.shift()!;
+    const workflow = draft ? saved : await getPublishedWorkflow(saved);
+    const settings = (workflow.settings as WorkflowSettings) || {};
+    const nodes = (workflow.nodes as WorkflowNode[]).map(node => toBundleNode(workflow.id, node, credentials));
+
+    workflows.push({
+      id: workflow.id,
+      name: workflow.name,
+      description: workflow.description,
+      nodes,
+      edges: (workflow.edges as WorkflowEdge[]).map(toBundleEdge),
+      settings,
+    });
+
+    for (const referencedId of getReferencedWorkflowIds(nodes, settings)) {
+      if (seen.has(referencedId)) continue;
+      seen.add(referencedId);
+      const referenced = await findWorkflow(referencedId);
+      // Missing workflows are left out; their references are cleared on import
+      if (referenced) pending.push(referenced);
+    }
+  }
+
+  return WorkflowBundleSchema.parse({
+    formatVersion: WORKFLOW_BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    rootWorkflowId: root.id,
+    workflows,
+    credentials,
+  });
+}
+
+// Create the bundle's workflows as new, unpublished and inactive workflows. Workflows get new ids and
+// references between them are rewritten; node and edge ids are kept since expressions refer to them.
+// Throws a ZodError when the bundle is invalid.
+export async function importWorkflowBundle(input: unknown, userId: string): Promise<ImportedWorkflowBundle> {
+  const bundle = WorkflowBundleSchema.parse(input);
+  const storage = await getStorage();
+  const idMap = new Map<string, string>();
+  const created: Workflow[] = [];
+
+  try {
+    // Ids are needed before references can be rewritten, so workflows are created empty first
+    for (const bundled of bundle.workflows) {
+      const workflow = await storage.createWorkflow({ name: bundled.name, description: bundled.description, userId });
+      idMap.set(bundled.id, workflow.id);
+      created.push(workflow);
+    }
+
+    const imported: Workflow[] = [];
+    for (const bundled of bundle.workflows) {
+      const credentials = bundle.credentials.filter(credential => credential.workflowId === bundled.id);
+      const { settings, nodes } = remapWorkflowReferences(bundled, idMap);
+
+      const workflow = await storage.updateWorkflow(idMap.get(bundled.id)!, {
+        nodes: nodes.map(node => fromBundleNode(node, credentials)),
+        edges: bundled.edges,
+        settings,
+      });
+      if (!workflow) throw new Error(`Failed to import workflow ${bundled.name}`);
+      await recordWorkflowVersion(workflow, 'Imported');
+      imported.push(workflow);
+    }
+
+    return {
+      workflow: imported[bundle.workflows.findIndex(workflow => workflow.id === bundle.rootWorkflowId)],
+      workflows: bundle.workflows.map((bundled, index) => ({ id: imported[index].id, name: imported[index].name, bundleId: bundled.id })),
+      credentials: bundle.credentials
+        .filter(credential => idMap.has(credential.workflowId))
+        .map(credential => ({
+          workflowId: idMap.get(credential.workflowId)!,
+          nodeId: credential.nodeId,
+          field: credential.field,
+          filled: !!credential.value,
+        })),
+    };
+  } catch (error) {
+    // Leave nothing half-imported behind
+    for (const workflow of created) {
+      await storage.deleteWorkflow(workflow.id);
+    }
+    throw error;
+  }
+}
+
+// Builder nodes keep their type in data.nodeType; bundles use the node type itself so they validate
+// against NodeSchema. Secrets are replaced by empty strings and listed as placeholders.
+function toBundleNode(workflowId: string, node: WorkflowNode, credentials: CredentialPlaceholder[]): BundledNode {
+  const { nodeType, ...data } = node.data || {};
+  const stripped = stripSecrets(data, (field) => {
+    credentials.push({ key: `${workflowId}:${node.id}:${field}`, workflowId, nodeId: node.id, field });
+  });
+
+  return {
+    id: node.id,
+    type: getNodeType(node) as BundledNode['type'],
+    builderType: node.type,
+    position: node.position,
+    data: stripped,
+  };
+}
+
+function fromBundleNode(node: BundledNode, credentials: CredentialPlaceholder[]): WorkflowNode {
+  let data: Record<string, any> = { ...node.data, nodeType: node.type };
+  for (const credential of credentials) {
+    if (credential.nodeId === node.id && credential.value) {
+      data = setPath(data, credential.field.split('.'), credential.value);
+    }
+  }
+  // Bundles written before builderType was recorded come from the builder, which renders every node as customNode
+  return { id: node.id, type: (node.builderType ?? 'customNode') as WorkflowNode['type'], position: node.position, data };
+}
+
+// React Flow stores extra edge fields and null handles; only the connection itself is exported
+function toBundleEdge(edge: WorkflowEdge): WorkflowEdge {
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    ...(edge.sourceHandle ? { sourceHandle: edge.sourceHandle } : {}),
+    ...(edge.targetHandle ? { targetHandle: edge.targetHandle } : {}),
+  };
+}
+
+// Blank every secret in node data, reporting each one by its dotted field path
+export function stripSecrets(value: Record<string, any>, onSecret: (field: string) => void, prefix = ''): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => {
+      const field = prefix + key;
+      if (SECRET_FIELD_PATTERN.test(key) && typeof item === 'string' && item !== '') {
+        onSecret(field);
+        return [key, ''];
+      }
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        return [key, stripSecrets(item, onSecret, `${field}.`)];
+      }
+      return [key, item];
+    })
+  );
+}
+
+function setPath(value: Record<string, any>, path: string[], item: unknown): Record<string, any> {
+  const [key, ...rest] = path;
+  if (rest.length === 0) return { ...value, [key]: item };
+  const child = value[key] && typeof value[key] === 'object' ? value[key] : {};
+  return { ...value, [key]: setPath(child, rest, item) };
+}
+
+function getReferencedWorkflowIds(nodes: BundledNode[], settings: WorkflowSettings): string[] {
+  const ids = nodes
+    .filter(node => node.type === 'execute-workflow' && node.data.workflowId)
+    .map(node => String(node.data.workflowId));
+  if (settings.errorWorkflowId) ids.push(settings.errorWorkflowId);
+  return ids;
+}
+
+// Point execute-workflow nodes and the error workflow setting at the imported workflows; references
+// to workflows that are not in the bundle are cleared so validation reports them
+function remapWorkflowReferences(
+  workflow: BundledWorkflow,
+  idMap: Map<string, string>
+): { nodes: BundledNode[]; settings: WorkflowSettings } {
+  const nodes = workflow.nodes.map(node => {
+    if (node.type !== 'execute-workflow' || !node.data.workflowId) return node;
+    return { ...node, data: { ...node.data, workflowId: idMap.get(String(node.data.workflowId)) ?? '' } };
+  });
+
+  const { errorWorkflowId, ...settings } = workflow.settings;
+  const remappedErrorWorkflowId = errorWorkflowId ? idMap.get(errorWorkflowId) : undefined;
+
+  return {
+    nodes,
+    settings: remappedErrorWorkflowId ? { ...settings, errorWorkflowId: remappedErrorWorkflowId } : settings,
+  };
+}
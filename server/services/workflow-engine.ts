@@ -1,130 +1,645 @@
-import { type WorkflowNode, type WorkflowEdge, type WorkflowExecution } from "@shared/schema";
+import { type Workflow, type WorkflowNode, type WorkflowEdge, type WorkflowExecution, type WorkflowSettings, type NodeStatus, type MergeMode, type SwitchRule, MergeModeEnum, SwitchRuleSchema, LangChainNodeTypeEnum } from "@shared/schema";
 import { openaiService } from "./openai-service";
 import { llmService } from "./llm-service";
 import { langChainService } from "./langchain-service";
 import { getStorage } from "../config/storage";
+import { buildWorkflowGraph, findCycle, extractBranch, getBranchExits, getNodeType, type WorkflowGraph } from "./workflow-graph";
+import { executionEvents } from "./execution-events";
+import { getRetryPolicy, classifyError, getRetryDelay, type ErrorClass } from "./retry-policy";
+import { renderTemplate, renderTemplates, resolveTemplateValue } from "./template-expressions";
+import { runSandboxedCode } from "./code-sandbox";
+import { getPublishedWorkflow } from "./workflow-versions";
+import { getAccessibleWorkflow } from "./workflow-access";
 
 export interface NodeExecutionResult {
   success: boolean;
   data?: any;
   error?: string;
+  // Output handles to follow; edges without a sourceHandle are always followed
+  activeHandles?: string[];
+  // Set when the failure was thrown, so the original error can be classified for retries
+  errorClass?: ErrorClass;
+  timedOut?: boolean;
 }
 
 export interface WorkflowContext {
   executionId: string;
   variables: Record<string, any>;
   previousResults: Record<string, any>;
+  nodeStates: Record<string, NodeStatus>;
+  // Source node ids whose taken edges reached each node, in arrival order
+  nodeInputs: Record<string, string[]>;
+  // Aborted when the execution is cancelled or passes its deadline
+  signal: AbortSignal;
+  // First node whose failure stopped the run
+  failedNodeId?: string;
+  // Number of execute-workflow nodes between this run and the top-level run
+  depth: number;
+  // Graph being run; inside a loop iteration this is the loop body
+  graph: WorkflowGraph;
+  // Trigger node that started the run; other trigger nodes are skipped
+  triggerNodeId?: string;
+  // Receives the reply built by a webhook-response node when a webhook call is waiting for it
+  onWebhookResponse?: (response: WebhookResponse) => void;
+  // Owner of the workflow being run; sub-workflows and error workflows must be ones the owner can access
+  ownerId?: string;
+}
+
+export interface RunOptions {
+  // Workflow version recorded on the execution; the latest saved version when omitted
+  version?: number;
+  depth?: number;
+  triggerNodeId?: string;
+  onWebhookResponse?: (response: WebhookResponse) => void;
+}
+
+export interface WebhookResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  bodyType: 'json' | 'text';
+  body: any;
+  // Send the reply as soon as the node runs and let the rest of the workflow continue in the background
+  immediate: boolean;
+}
+
+// Nodes that start a workflow rather than process data
+export const TRIGGER_NODE_TYPES = ['manual', 'webhook', 'schedule'];
+
+// Source handle that receives a node's failure when continue-on-error is enabled
+export const ERROR_HANDLE = 'error';
+
+// Applies when a workflow has no timeoutSeconds setting
+const DEFAULT_WORKFLOW_TIMEOUT_SECONDS = 300;
+
+// Conditions should be cheap; a slow one is almost certainly a bug
+const CONDITION_TIMEOUT_MS = 1000;
+
+// Abort reason that tells a passed deadline apart from a cancellation
+const DEADLINE_EXCEEDED = 'deadline-exceeded';
+
+// How deeply execute-workflow nodes may nest, which also stops a workflow from calling itself forever
+const MAX_WORKFLOW_DEPTH = parseInt(process.env.WORKFLOW_MAX_DEPTH || '5', 10) || 5;
+
+// Loop node handles: the body runs from `item` once per item, and `done` continues with the aggregated result
+export const LOOP_ITEM_HANDLE = 'item';
+export const LOOP_DONE_HANDLE = 'done';
+
+// Switch output taken when no rule matches
+export const SWITCH_DEFAULT_HANDLE = 'default';
+
+// Node fields left out of template rendering, as dotted paths. Some are resolved by their own node with
+// resolveTemplateValue so the values keep their type; source code is never rendered, since that would
+// turn input values into code, and reads its inputs from the sandbox globals or stdin instead.
+const RAW_TEMPLATE_FIELDS: Record<string, string[]> = {
+  'execute-workflow': ['inputMapping'],
+  loop: ['items'],
+  'webhook-response': ['responseData'],
+  code: ['code'],
+  condition: ['condition'],
+  'code-executor': ['config.code'],
+};
+
+// Copy of data without the fields at the given paths
+function omitPaths(data: Record<string, any>, paths: string[][]): Record<string, any> {
+  const copy = { ...data };
+  for (const [key, ...rest] of paths) {
+    if (!(key in copy)) continue;
+    if (rest.length === 0) {
+      delete copy[key];
+    } else if (copy[key] && typeof copy[key] === 'object') {
+      copy[key] = omitPaths(copy[key], [rest]);
+    }
+  }
+  return copy;
+}
+
+// Put the fields at the given paths back from source into target
+function copyPaths(target: Record<string, any>, source: Record<string, any>, paths: string[][]): void {
+  for (const [key, ...rest] of paths) {
+    if (!(key in source)) continue;
+    if (rest.length === 0) {
+      target[key] = source[key];
+    } else if (source[key] && typeof source[key] === 'object' && target[key] && typeof target[key] === 'object') {
+      copyPaths(target[key], source[key], [rest]);
+    }
+  }
+}
+
+interface ActiveExecution {
+  controller: AbortController;
+  // Resolves once the run has recorded its final status
+  settled: Promise<void>;
 }
 
 export class WorkflowEngine {
+  private activeExecutions = new Map<string, ActiveExecution>();
+
   async executeWorkflow(
     workflowId: string,
     nodes: WorkflowNode[],
     edges: WorkflowEdge[],
-    input?: any
+    input?: any,
+    settings: WorkflowSettings = {},
+    options: RunOptions = {}
+  ): Promise<WorkflowExecution> {
+    const execution = await this.createExecution(workflowId, input, 'running', undefined, options.version, options.triggerNodeId);
+    return this.runExecution(execution, nodes, edges, settings, options);
+  }
+
+  async createExecution(
+    workflowId: string,
+    input?: any,
+    status: string = 'running',
+    parentExecutionId?: string,
+    version?: number,
+    triggerNodeId?: string
   ): Promise<WorkflowExecution> {
-    console.log(`Starting workflow execution: ${workflowId}`);
-    
-    // Create execution record
     const storage = await getStorage();
-    const execution = await storage.createWorkflowExecution({
+    // Every save is snapshotted, so unless a published version is being run the latest version is the draft
+    const [latest] = version === undefined ? await storage.getWorkflowVersions(workflowId) : [];
+    return storage.createWorkflowExecution({
       workflowId,
+      parentExecutionId,
+      version: version ?? latest?.version,
+      triggerNodeId,
       input: input || {},
+      status,
     });
+  }
 
+  async runExecution(
+    execution: WorkflowExecution,
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[],
+    settings: WorkflowSettings = {},
+    { depth = 0, triggerNodeId, onWebhookResponse }: RunOptions = {}
+  ): Promise<WorkflowExecution> {
+    console.log(`Starting workflow execution: ${execution.workflowId}`);
+
+    // Registered before the first await so the run can be cancelled as soon as it is started
+    const controller = new AbortController();
+    let markSettled!: () => void;
+    this.activeExecutions.set(execution.id, {
+      controller,
+      settled: new Promise<void>(resolve => { markSettled = resolve; }),
+    });
+
+    // Everything after registering the run is inside the try, so the finally always unregisters it
+    let deadline: ReturnType<typeof setTimeout> | undefined;
+    let context: WorkflowContext | undefined;
     try {
-      const context: WorkflowContext = {
+      const storage = await getStorage();
+      if (execution.status !== 'running') {
+        await storage.updateWorkflowExecution(execution.id, { status: 'running' });
+      }
+      executionEvents.emit(execution.id, { type: 'execution.started' });
+
+      const timeoutSeconds = settings.timeoutSeconds ?? DEFAULT_WORKFLOW_TIMEOUT_SECONDS;
+      deadline = timeoutSeconds > 0
+        ? setTimeout(() => controller.abort(DEADLINE_EXCEEDED), timeoutSeconds * 1000)
+        : undefined;
+
+      const graph = buildWorkflowGraph(nodes, edges);
+      const owner = await storage.getWorkflow(execution.workflowId);
+      context = {
         executionId: execution.id,
-        variables: input || {},
+        variables: (execution.input as Record<string, any>) || {},
         previousResults: {},
+        nodeStates: {},
+        nodeInputs: {},
+        signal: controller.signal,
+        depth,
+        graph,
+        triggerNodeId,
+        onWebhookResponse,
+        ownerId: owner?.userId ?? undefined,
       };
 
-      // Find start node (no incoming edges)
-      const startNodes = nodes.filter(node => 
-        !edges.some(edge => edge.target === node.id)
-      );
+      const cycle = findCycle(graph);
+      if (cycle) {
+        throw new Error(`Workflow contains a cycle: ${cycle.join(' -> ')}`);
+      }
 
-      if (startNodes.length === 0) {
+      if (graph.roots.length === 0) {
         throw new Error("No start node found in workflow");
       }
 
-      // Execute workflow starting from start node
-      const result = await this.executeFromNode(startNodes[0], nodes, edges, context);
+      // Run every root and schedule the rest of the graph as dependencies complete
+      const result = await this.runGraph(graph, context);
 
-      // Update execution with results
-      await storage.updateWorkflowExecution(execution.id, {
-        status: 'completed',
-        output: result.data,
-        completedAt: new Date(),
-      });
+      if (context.signal.aborted && context.signal.reason === DEADLINE_EXCEEDED) {
+        result.error = `Workflow exceeded its ${timeoutSeconds}s deadline`;
+        result.timedOut = true;
+      }
+
+      // Timed out runs keep the outputs of the nodes that did finish
+      if (result.timedOut) {
+        const error = result.error || 'Execution timed out';
+        await this.finishExecution(execution.id, 'timed_out', { output: context.previousResults, error }, context.nodeStates);
+        void this.runErrorHandler(execution, settings, context, error);
+        return await storage.getWorkflowExecution(execution.id) || execution;
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || "Workflow execution failed");
+      }
+
+      await this.finishExecution(execution.id, 'completed', { output: result.data }, context.nodeStates);
 
       return await storage.getWorkflowExecution(execution.id) || execution;
     } catch (error) {
-      // Update execution with error
-      await storage.updateWorkflowExecution(execution.id, {
-        status: 'failed',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date(),
-      });
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const nodeStates = context?.nodeStates ?? {};
 
+      // A cancelled run is an expected outcome, not an error for the caller
+      if (controller.signal.aborted) {
+        await this.finishExecution(execution.id, 'cancelled', { error: message }, nodeStates);
+        const storage = await getStorage();
+        return await storage.getWorkflowExecution(execution.id) || execution;
+      }
+
+      await this.finishExecution(execution.id, 'failed', { error: message }, nodeStates);
+      // Without a context the run failed while starting, before its owner was known
+      if (context) void this.runErrorHandler(execution, settings, context, message);
       throw error;
+    } finally {
+      clearTimeout(deadline);
+      this.activeExecutions.delete(execution.id);
+      markSettled();
     }
   }
 
-  private async executeFromNode(
-    node: WorkflowNode,
-    allNodes: WorkflowNode[],
-    edges: WorkflowEdge[],
-    context: WorkflowContext
-  ): Promise<NodeExecutionResult> {
-    console.log(`Executing node: ${node.id} (${node.type})`);
+  // Record the final status of an execution and notify event subscribers
+  async finishExecution(
+    executionId: string,
+    status: string,
+    updates: Partial<WorkflowExecution> = {},
+    nodeStates: Record<string, NodeStatus> = {}
+  ): Promise<void> {
+    const storage = await getStorage();
+    await storage.updateWorkflowExecution(executionId, {
+      ...updates,
+      status,
+      nodeStates,
+      completedAt: new Date(),
+    });
+    executionEvents.emit(executionId, {
+      type: 'execution.finished',
+      status,
+      error: updates.error,
+      nodeStates,
+    });
+  }
+
+  // Start the workflow's error handler in the background; its own failures are only logged
+  private async runErrorHandler(
+    execution: WorkflowExecution,
+    settings: WorkflowSettings,
+    context: WorkflowContext,
+    error: string
+  ): Promise<void> {
+    if (!settings.errorWorkflowId) return;
 
     try {
-      // Execute the current node
-      const result = await this.executeNode(node, context);
-      
-      if (!result.success) {
-        return result;
+      const saved = await this.findCalledWorkflow(settings.errorWorkflowId, context);
+      if (!saved) {
+        console.error(`Error workflow ${settings.errorWorkflowId} not found for execution ${execution.id}`);
+        return;
       }
+      const handler = await getPublishedWorkflow(saved);
+
+      await this.executeWorkflow(
+        handler.id,
+        handler.nodes as WorkflowNode[],
+        handler.edges as WorkflowEdge[],
+        {
+          workflowId: execution.workflowId,
+          executionId: execution.id,
+          failedNodeId: context.failedNodeId ?? null,
+          error,
+          context: {
+            variables: context.variables,
+            previousResults: context.previousResults,
+          },
+        },
+        // A failing error handler never starts another one, so handlers cannot loop
+        { ...(handler.settings as WorkflowSettings), errorWorkflowId: undefined },
+        { version: handler.publishedVersion ?? undefined }
+      );
+    } catch (handlerError) {
+      console.error(`Error workflow ${settings.errorWorkflowId} failed for execution ${execution.id}:`, handlerError);
+    }
+  }
 
-      // Store result in context
-      context.previousResults[node.id] = result.data;
+  // Abort a running execution and wait until it has been marked cancelled
+  async cancelExecution(executionId: string): Promise<boolean> {
+    const active = this.activeExecutions.get(executionId);
+    if (!active) return false;
 
-      // Find next nodes
-      const nextEdges = edges.filter(edge => edge.source === node.id);
-      
-      if (nextEdges.length === 0) {
-        // End of workflow
-        return result;
+    active.controller.abort();
+    await active.settled;
+    return true;
+  }
+
+  private async runGraph(graph: WorkflowGraph, context: WorkflowContext): Promise<NodeExecutionResult> {
+    // Number of inbound edges each node is still waiting on, and how many of those were taken
+    const pendingInbound = new Map<string, number>();
+    const takenInbound = new Map<string, number>();
+    graph.incoming.forEach((inbound, nodeId) => {
+      pendingInbound.set(nodeId, inbound.length);
+      takenInbound.set(nodeId, 0);
+    });
+
+    const inFlight = new Map<string, Promise<void>>();
+    let failure: NodeExecutionResult | null = null;
+
+    const resolveEdge = (edge: WorkflowEdge, taken: boolean) => {
+      const target = graph.nodes.get(edge.target)!;
+      if (taken) {
+        takenInbound.set(edge.target, (takenInbound.get(edge.target) || 0) + 1);
+        (context.nodeInputs[edge.target] = context.nodeInputs[edge.target] || []).push(edge.source);
       }
+      const remaining = (pendingInbound.get(edge.target) || 0) - 1;
+      pendingInbound.set(edge.target, remaining);
 
-      // Execute next nodes
-      for (const edge of nextEdges) {
-        const nextNode = allNodes.find(n => n.id === edge.target);
-        if (nextNode) {
-          const nextResult = await this.executeFromNode(nextNode, allNodes, edges, context);
-          if (!nextResult.success) {
-            return nextResult;
+      // Nodes that wait on any input start on the first taken edge and ignore later arrivals
+      if (context.nodeStates[edge.target]) return;
+      if (taken && this.waitsForAnyInput(target)) {
+        schedule(target);
+        return;
+      }
+      if (remaining > 0) return;
+
+      if ((takenInbound.get(edge.target) || 0) > 0) {
+        schedule(target);
+      } else {
+        skip(target);
+      }
+    };
+
+    // A node none of whose inbound edges were taken is skipped, and so is everything downstream of it
+    const skip = (node: WorkflowNode) => {
+      context.nodeStates[node.id] = 'skipped';
+      executionEvents.emit(context.executionId, { type: 'node.skipped', nodeId: node.id });
+      for (const edge of graph.outgoing.get(node.id) || []) {
+        resolveEdge(edge, false);
+      }
+    };
+
+    const schedule = (node: WorkflowNode) => {
+      context.nodeStates[node.id] = 'running';
+      const task = this.executeNodeWithRetry(node, context).then(result => {
+        inFlight.delete(node.id);
+
+        // The run has already been recorded as cancelled; late results are discarded
+        if (context.signal.aborted) return;
+
+        if (!result.success && !node.data.continueOnError) {
+          context.nodeStates[node.id] = result.timedOut ? 'timed_out' : 'failed';
+          context.failedNodeId = context.failedNodeId || node.id;
+          failure = failure || {
+            success: false,
+            error: `Node ${node.id} failed: ${result.error}`,
+            timedOut: result.timedOut,
+          };
+          return;
+        }
+
+        // With continue-on-error the failure becomes the node's output and only its error branch is followed
+        const outcome: NodeExecutionResult = result.success ? result : {
+          success: true,
+          data: { error: result.error, failedNodeId: node.id },
+          activeHandles: [ERROR_HANDLE],
+        };
+
+        context.nodeStates[node.id] = result.success ? 'completed' : result.timedOut ? 'timed_out' : 'failed';
+        context.previousResults[node.id] = outcome.data;
+
+        // Stop scheduling new work once any branch has failed
+        if (failure) return;
+
+        for (const edge of graph.outgoing.get(node.id) || []) {
+          resolveEdge(edge, this.isEdgeActive(edge, outcome));
+        }
+        // The loop ran its body itself; nodes the body leads into run after the loop, from its done path
+        if (result.success && getNodeType(node) === 'loop') {
+          for (const edge of getBranchExits(graph, node.id, LOOP_ITEM_HANDLE)) {
+            resolveEdge(edge, false);
           }
         }
+      });
+      inFlight.set(node.id, task);
+    };
+
+    graph.roots.forEach(node => {
+      const otherTrigger = !!context.triggerNodeId && node.id !== context.triggerNodeId && TRIGGER_NODE_TYPES.includes(getNodeType(node));
+      if (otherTrigger) skip(node);
+      else schedule(node);
+    });
+
+    // Cancellation stops waiting on nodes that ignore the abort signal; their results are discarded
+    let onAbort!: () => void;
+    const aborted = new Promise<void>(resolve => {
+      onAbort = () => resolve();
+      context.signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    while (inFlight.size > 0 && !context.signal.aborted) {
+      await Promise.race([...Array.from(inFlight.values()), aborted]);
+    }
+    // Loop iterations run a graph each, so listeners must not pile up on the shared signal
+    context.signal.removeEventListener('abort', onAbort);
+
+    if (context.signal.aborted) {
+      const timedOut = context.signal.reason === DEADLINE_EXCEEDED;
+      Array.from(inFlight.keys()).forEach(nodeId => {
+        context.nodeStates[nodeId] = timedOut ? 'timed_out' : 'cancelled';
+      });
+      return { success: false, error: timedOut ? 'Execution timed out' : 'Execution cancelled', timedOut };
+    }
+
+    if (failure) return failure;
+
+    return {
+      success: true,
+      data: this.collectOutput(graph, context),
+    };
+  }
+
+  private waitsForAnyInput(node: WorkflowNode): boolean {
+    return getNodeType(node) === 'merge' && this.getMergeMode(node) === 'wait-any';
+  }
+
+  private isEdgeActive(edge: WorkflowEdge, result: NodeExecutionResult): boolean {
+    // Error edges are only followed by a routed failure, and a routed failure follows nothing else
+    const routedFailure = !!result.activeHandles?.includes(ERROR_HANDLE);
+    if (routedFailure || edge.sourceHandle === ERROR_HANDLE) {
+      return routedFailure && edge.sourceHandle === ERROR_HANDLE;
+    }
+
+    if (!edge.sourceHandle || !result.activeHandles) return true;
+    return result.activeHandles.includes(edge.sourceHandle);
+  }
+
+  // Run a node under its retry policy; every attempt is traced separately
+  private async executeNodeWithRetry(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
+    const policy = getRetryPolicy(node.data.retry);
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.executeTracedNode(node, context, attempt);
+      if (result.success || attempt >= policy.maxAttempts || context.signal.aborted) {
+        return result;
+      }
+
+      const errorClass = result.errorClass ?? classifyError(result.error);
+      if (errorClass === 'unknown' || !policy.retryOn.includes(errorClass)) {
+        return result;
       }
 
-      return result;
+      const delayMs = getRetryDelay(policy, attempt);
+      console.log(`Retrying node ${node.id} after ${errorClass} error in ${delayMs}ms (attempt ${attempt + 1}/${policy.maxAttempts})`);
+      executionEvents.emit(context.executionId, {
+        type: 'node.retrying',
+        nodeId: node.id,
+        attempt: attempt + 1,
+        delayMs,
+        errorClass,
+      });
+      await this.wait(delayMs, context.signal);
+    }
+  }
+
+  // Resolves after the delay, or early if the execution is cancelled
+  private wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // Persist a node_executions row around each node run so failures can be inspected per node
+  private async executeTracedNode(node: WorkflowNode, context: WorkflowContext, attempt = 1): Promise<NodeExecutionResult> {
+    const storage = await getStorage();
+    const trace = await storage.createNodeExecution({
+      executionId: context.executionId,
+      nodeId: node.id,
+      nodeType: getNodeType(node),
+      status: 'running',
+      attempt,
+      input: this.getNodeInput(node, context),
+    });
+    executionEvents.emit(context.executionId, { type: 'node.started', nodeId: node.id, attempt });
+
+    const result = await this.executeNodeSafely(node, context);
+
+    // A node stopped by the run being cancelled or timing out did not fail by itself
+    const stoppedStatus = !result.success && context.signal.aborted
+      ? (context.signal.reason === DEADLINE_EXCEEDED ? 'timed_out' : 'cancelled')
+      : undefined;
+
+    await storage.updateNodeExecution(trace.id, {
+      status: result.success ? 'completed' : stoppedStatus ?? (result.timedOut ? 'timed_out' : 'failed'),
+      output: result.data ?? null,
+      error: result.error ?? null,
+      completedAt: new Date(),
+    });
+    executionEvents.emit(context.executionId, result.success
+      ? { type: 'node.completed', nodeId: node.id, output: result.data }
+      : stoppedStatus
+        ? { type: 'node.cancelled', nodeId: node.id, status: stoppedStatus }
+        : { type: 'node.failed', nodeId: node.id, error: result.error || 'Unknown error' });
+
+    return result;
+  }
+
+  private emitTokens(node: WorkflowNode, context: WorkflowContext): (delta: string) => void {
+    return (delta: string) => {
+      executionEvents.emit(context.executionId, { type: 'node.token', nodeId: node.id, delta });
+    };
+  }
+
+  // Root nodes receive the workflow input; other nodes receive the results of the sources that reached them
+  private getNodeInput(node: WorkflowNode, context: WorkflowContext): any {
+    const sources = context.nodeInputs[node.id];
+    if (!sources) return context.variables;
+    return Object.fromEntries(sources.map(sourceId => [sourceId, context.previousResults[sourceId]]));
+  }
+
+  private async executeNodeSafely(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
+    console.log(`Executing node: ${node.id} (${getNodeType(node)})`);
+
+    if (context.signal.aborted) {
+      return { success: false, error: 'Execution cancelled' };
+    }
+
+    const timeoutSeconds = this.getNodeTimeout(node);
+    if (!timeoutSeconds) {
+      return this.executeNodeCatchingErrors(node, context);
+    }
+
+    // The node sees a signal that also aborts on its own timeout, so provider calls are cut off too
+    const timeout = AbortSignal.timeout(timeoutSeconds * 1000);
+    const nodeContext: WorkflowContext = { ...context, signal: AbortSignal.any([context.signal, timeout]) };
+    const timedOut = new Promise<NodeExecutionResult>(resolve => {
+      timeout.addEventListener('abort', () => resolve({
+        success: false,
+        error: `Timed out after ${timeoutSeconds}s`,
+        errorClass: 'timeout',
+        timedOut: true,
+      }), { once: true });
+    });
+
+    return Promise.race([this.executeNodeCatchingErrors(node, nodeContext), timedOut]);
+  }
+
+  // Per-node timeout from node settings, or the `timeout` config of LangChain nodes such as the code executor
+  private getNodeTimeout(node: WorkflowNode): number | undefined {
+    const timeout = Number(node.data.timeoutSeconds ?? node.data.config?.timeout);
+    return timeout > 0 ? timeout : undefined;
+  }
+
+  private async executeNodeCatchingErrors(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
+    try {
+      return await this.executeNode(this.renderNodeTemplates(node, context), context);
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
+        errorClass: classifyError(error),
       };
     }
   }
 
+  // A single terminal node returns its data directly; multiple terminals are keyed by node id
+  private collectOutput(graph: WorkflowGraph, context: WorkflowContext): any {
+    // Body nodes keep no results in the outer run, so a loop with nothing after it ends the run itself
+    const endingLoops = Array.from(graph.nodes.values()).filter(node => {
+      const outgoing = graph.outgoing.get(node.id)!;
+      return getNodeType(node) === 'loop' && outgoing.length > 0 && outgoing.every(edge => edge.sourceHandle === LOOP_ITEM_HANDLE);
+    });
+    const completedSinks = graph.sinks.concat(endingLoops).filter(node => node.id in context.previousResults);
+    if (completedSinks.length === 1) {
+      return context.previousResults[completedSinks[0].id];
+    }
+    return Object.fromEntries(
+      completedSinks.map(node => [node.id, context.previousResults[node.id]])
+    );
+  }
+
   private async executeNode(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
     // Check if this is a LangChain node type
     if (this.isLangChainNode(node)) {
       return this.executeLangChainNode(node, context);
     }
 
-    switch (node.type) {
+    switch (getNodeType(node)) {
       case 'manual':
         return this.executeManualTrigger(node, context);
       
@@ -149,9 +664,18 @@ export class WorkflowEngine {
       case 'condition':
         return this.executeCondition(node, context);
       
+      case 'switch':
+        return this.executeSwitch(node, context);
+      
       case 'merge':
         return this.executeMerge(node, context);
       
+      case 'execute-workflow':
+        return this.executeSubWorkflow(node, context);
+      
+      case 'loop':
+        return this.executeLoop(node, context);
+      
       case 'email':
         return this.executeEmail(node, context);
       
@@ -161,7 +685,7 @@ export class WorkflowEngine {
       default:
         return {
           success: false,
-          error: `Unknown node type: ${node.type}`,
+          error: `Unknown node type: ${getNodeType(node)}`,
         };
     }
   }
@@ -183,7 +707,8 @@ export class WorkflowEngine {
   private async executeSchedule(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
     return {
       success: true,
-      data: { timestamp: new Date().toISOString() },
+      // Scheduled runs pass scheduledAt in the input
+      data: { timestamp: new Date().toISOString(), ...context.variables },
     };
   }
 
@@ -195,7 +720,7 @@ export class WorkflowEngine {
       if (userMessage) {
         messages.push({
           role: 'user' as const,
-          content: this.interpolateTemplate(userMessage, context),
+          content: userMessage,
         });
       }
 
@@ -203,8 +728,10 @@ export class WorkflowEngine {
         model: model || "gpt-4o",
         temperature: temperature || 0.7,
         maxTokens: maxTokens || 150,
-        systemPrompt: this.interpolateTemplate(systemPrompt || "", context),
+        systemPrompt: systemPrompt || "",
         messages,
+        onToken: this.emitTokens(node, context),
+        signal: context.signal,
       });
 
       return {
@@ -215,6 +742,7 @@ export class WorkflowEngine {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'OpenAI execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
@@ -222,13 +750,14 @@ export class WorkflowEngine {
   private async executeAgent(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
     try {
       const { prompt, provider = 'openai', model = 'gpt-4o', temperature = 0.7, maxTokens = 500 } = node.data;
-      const interpolatedPrompt = this.interpolateTemplate(prompt || "", context);
+      const interpolatedPrompt = prompt || "";
       
       const response = await llmService.generateResponse(
         provider,
         model,
         interpolatedPrompt,
-        context.previousResults
+        context.previousResults,
+        { onToken: this.emitTokens(node, context), signal: context.signal }
       );
 
       return {
@@ -239,6 +768,7 @@ export class WorkflowEngine {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Agent execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
@@ -252,67 +782,359 @@ export class WorkflowEngine {
   }
 
   private async executeCode(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
-    try {
-      const { code, language } = node.data;
-      
-      if (language === 'javascript') {
-        // Simple JavaScript execution (be careful with security in production)
-        const func = new Function('context', 'previousResults', code);
-        const result = func(context.variables, context.previousResults);
-        
-        return {
-          success: true,
-          data: result,
-        };
-      }
-      
+    const { code, language } = node.data;
+
+    if (language !== 'javascript') {
       return {
         success: false,
         error: `Unsupported language: ${language}`,
       };
-    } catch (error) {
+    }
+
+    const sandbox = await runSandboxedCode(code || '', {
+      context: context.variables,
+      previousResults: context.previousResults,
+    }, { signal: context.signal });
+
+    if (!sandbox.success) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Code execution failed',
+        error: sandbox.error || 'Code execution failed',
+        errorClass: sandbox.timedOut ? 'timeout' : undefined,
       };
     }
+
+    return {
+      success: true,
+      data: { result: sandbox.result, logs: sandbox.logs },
+    };
   }
 
   private async executeCondition(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
-    try {
-      const { condition } = node.data;
-      
-      // Simple condition evaluation
-      const func = new Function('context', 'previousResults', `return ${condition}`);
-      const result = func(context.variables, context.previousResults);
-      
+    const { condition } = node.data;
+
+    // Conditions run in the same sandbox as code nodes, as a single returned expression
+    const sandbox = await runSandboxedCode(`return (${condition || 'false'});`, {
+      context: context.variables,
+      previousResults: context.previousResults,
+    }, { timeoutMs: CONDITION_TIMEOUT_MS, signal: context.signal });
+
+    if (!sandbox.success) {
       return {
-        success: true,
-        data: { condition: result, originalCondition: condition },
+        success: false,
+        error: sandbox.error || 'Condition evaluation failed',
       };
+    }
+
+    const result = !!sandbox.result;
+    return {
+      success: true,
+      data: { condition: result, originalCondition: condition, logs: sandbox.logs },
+      activeHandles: [result ? 'true' : 'false'],
+    };
+  }
+
+  private getMergeMode(node: WorkflowNode): MergeMode {
+    const parsed = MergeModeEnum.safeParse(node.data.mode);
+    if (parsed.success) return parsed.data;
+    // Older merge nodes only carried a waitForAll flag
+    return node.data.waitForAll === false ? 'wait-any' : 'wait-all';
+  }
+
+  // Route to the first output whose rule matches the value, or whose category a model picks, else to the default output
+  private async executeSwitch(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
+    const parsed = SwitchRuleSchema.array().safeParse(node.data.rules || []);
+    if (!parsed.success) {
+      return { success: false, error: `Invalid switch rules: ${parsed.error.errors[0].message}` };
+    }
+    const rules = parsed.data;
+    const value = typeof node.data.value === 'string' ? node.data.value : JSON.stringify(node.data.value ?? '');
+
+    let matched: SwitchRule | undefined;
+    if (node.data.mode === 'classify') {
+      const { provider = 'openai', model = 'gpt-4o' } = node.data;
+      const category = await llmService.classify(provider, model, value, rules, { signal: context.signal });
+      matched = rules.find(rule => rule.name === category);
+    } else {
+      matched = rules.find(rule => this.matchesSwitchRule(rule, value));
+    }
+
+    const handle = matched ? matched.id : SWITCH_DEFAULT_HANDLE;
+    return {
+      success: true,
+      data: { value, output: matched ? matched.name : SWITCH_DEFAULT_HANDLE, handle },
+      activeHandles: [handle],
+    };
+  }
+
+  private matchesSwitchRule(rule: SwitchRule, value: string): boolean {
+    const expected = rule.value ?? '';
+    const fold = (text: string) => rule.caseSensitive ? text : text.toLowerCase();
+
+    switch (rule.operator) {
+      case 'equals':
+        return fold(value) === fold(expected);
+      case 'contains':
+        return fold(value).includes(fold(expected));
+      case 'regex': {
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(expected, rule.caseSensitive ? '' : 'i');
+        } catch {
+          throw new Error(`Invalid regular expression in switch rule "${rule.name}"`);
+        }
+        return pattern.test(value);
+      }
+      case 'range': {
+        // Both bounds are inclusive; a missing bound leaves that side open
+        const number = value.trim() === '' ? NaN : Number(value);
+        if (Number.isNaN(number)) return false;
+        return (rule.min === undefined || number >= rule.min) && (rule.max === undefined || number <= rule.max);
+      }
+    }
+  }
+
+  private async executeMerge(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
+    const mode = this.getMergeMode(node);
+    const sources = context.nodeInputs[node.id] || [];
+    const inputs = sources.map(sourceId => context.previousResults[sourceId]);
+
+    switch (mode) {
+      case 'wait-all':
+        return {
+          success: true,
+          data: {
+            mode,
+            merged: Object.fromEntries(sources.map(sourceId => [sourceId, context.previousResults[sourceId]])),
+          },
+        };
+
+      case 'wait-any':
+        return {
+          success: true,
+          data: { mode, source: sources[0], merged: inputs[0] },
+        };
+
+      case 'append':
+        return {
+          success: true,
+          data: { mode, merged: inputs.flatMap(input => Array.isArray(input) ? input : [input]) },
+        };
+
+      case 'join': {
+        const joinKey = node.data.joinKey;
+        if (!joinKey) {
+          return {
+            success: false,
+            error: 'Merge node in join mode requires a join key',
+          };
+        }
+
+        // Outer join: records sharing a key value are combined, later inputs overwrite earlier fields
+        const joined = new Map<string, Record<string, any>>();
+        for (const input of inputs) {
+          const records = Array.isArray(input) ? input : [input];
+          for (const record of records) {
+            if (!record || typeof record !== 'object' || record[joinKey] === undefined) continue;
+            const key = String(record[joinKey]);
+            joined.set(key, { ...joined.get(key), ...record });
+          }
+        }
+
+        return {
+          success: true,
+          data: { mode, joinKey, merged: Array.from(joined.values()) },
+        };
+      }
+    }
+  }
+
+  // Runs started outside a saved workflow have no owner to check against
+  private async findCalledWorkflow(id: string, context: WorkflowContext): Promise<Workflow | undefined> {
+    if (context.ownerId) return getAccessibleWorkflow(id, context.ownerId);
+    const storage = await getStorage();
+    return storage.getWorkflow(id);
+  }
+
+  // Run another saved workflow as a child execution and wait for its output
+  private async executeSubWorkflow(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
+    const { workflowId, inputMapping } = node.data;
+    if (!workflowId) {
+      return { success: false, error: 'No workflow selected' };
+    }
+    if (context.depth >= MAX_WORKFLOW_DEPTH) {
+      return { success: false, error: `Sub-workflow nesting is limited to ${MAX_WORKFLOW_DEPTH} levels` };
+    }
+
+    const saved = await this.findCalledWorkflow(workflowId, context);
+    if (!saved) {
+      return { success: false, error: `Workflow ${workflowId} not found` };
+    }
+    // Sub-workflows run their published version, like triggers do, so editing one does not change its callers
+    const workflow = await getPublishedWorkflow(saved);
+
+    // Mapped fields become the child's input; without a mapping the node's own input is passed through
+    const scope = { input: context.variables, previousResults: context.previousResults };
+    const input = inputMapping && Object.keys(inputMapping).length > 0
+      ? Object.fromEntries(
+          Object.entries(inputMapping).map(([key, value]) => [
+            key,
+            typeof value === 'string' ? resolveTemplateValue(value, scope) : value,
+          ])
+        )
+      : this.getNodeInput(node, context);
+
+    const child = await this.createExecution(workflow.id, input, 'running', context.executionId, workflow.publishedVersion ?? undefined);
+
+    // Cancelling the parent stops the child, and a parent or node timeout times it out
+    const onAbort = () => {
+      const reason = context.signal.reason;
+      const timedOut = reason === DEADLINE_EXCEEDED || reason?.name === 'TimeoutError';
+      this.activeExecutions.get(child.id)?.controller.abort(timedOut ? DEADLINE_EXCEEDED : undefined);
+    };
+
+    let result: WorkflowExecution;
+    try {
+      const run = this.runExecution(
+        child,
+        workflow.nodes as WorkflowNode[],
+        workflow.edges as WorkflowEdge[],
+        workflow.settings as WorkflowSettings,
+        { depth: context.depth + 1 }
+      );
+      if (context.signal.aborted) onAbort();
+      context.signal.addEventListener('abort', onAbort, { once: true });
+      result = await run;
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Condition evaluation failed',
+        error: `Sub-workflow "${workflow.name}" failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
+    } finally {
+      context.signal.removeEventListener('abort', onAbort);
     }
+
+    if (result.status !== 'completed') {
+      return {
+        success: false,
+        error: `Sub-workflow "${workflow.name}" ${result.status.replace('_', ' ')}: ${result.error || 'no output'}`,
+        timedOut: result.status === 'timed_out',
+      };
+    }
+
+    return {
+      success: true,
+      data: { executionId: child.id, workflowId: workflow.id, output: result.output },
+    };
   }
 
-  private async executeMerge(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
+  // Run the loop body once per item or batch of items, a few at a time, and collect what each run produced
+  private async executeLoop(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
+    const items = this.getLoopItems(node, context);
+    if (!Array.isArray(items)) {
+      return { success: false, error: 'Loop items must resolve to an array' };
+    }
+
+    const batchSize = Math.max(1, Math.floor(Number(node.data.batchSize) || 1));
+    const concurrency = Math.max(1, Math.floor(Number(node.data.concurrency) || 1));
+    const batches: any[][] = [];
+    for (let start = 0; start < items.length; start += batchSize) {
+      batches.push(items.slice(start, start + batchSize));
+    }
+
+    const body = extractBranch(context.graph, node.id, LOOP_ITEM_HANDLE);
+    const results: any[] = new Array(batches.length).fill(null);
+    // Failed items or batches, with what the body was given
+    const errors: Array<{ index: number; item: any; error: string }> = [];
+    const iterationStates: Array<Record<string, NodeStatus>> = [];
+
+    let next = 0;
+    const runIterations = async () => {
+      while (next < batches.length && !context.signal.aborted) {
+        const index = next++;
+        // With a batch size of 1 the body gets the item itself, otherwise the batch
+        const variables = batchSize === 1
+          ? { item: batches[index][0], index, total: batches.length }
+          : { items: batches[index], index, total: batches.length };
+
+        if (body.nodes.size === 0) {
+          results[index] = variables;
+          continue;
+        }
+
+        const iteration: WorkflowContext = {
+          ...context,
+          variables,
+          previousResults: { ...context.previousResults },
+          nodeStates: {},
+          nodeInputs: {},
+          failedNodeId: undefined,
+          graph: body,
+        };
+        const result = await this.runGraph(body, iteration);
+        iterationStates.push(iteration.nodeStates);
+
+        if (result.success) {
+          results[index] = result.data;
+        } else if (!context.signal.aborted) {
+          errors.push({ index, item: batchSize === 1 ? batches[index][0] : batches[index], error: result.error || 'Iteration failed' });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, runIterations));
+
+    if (context.signal.aborted) {
+      return { success: false, error: 'Execution cancelled' };
+    }
+
+    // Body nodes get one status summing up their iterations; having a status also keeps the outer run
+    // from scheduling or skipping them when the loop's item edges are resolved
+    body.nodes.forEach((_, nodeId) => {
+      const states = iterationStates.map(states => states[nodeId]);
+      context.nodeStates[nodeId] =
+        states.includes('failed') ? 'failed'
+        : states.includes('timed_out') ? 'timed_out'
+        : states.includes('completed') ? 'completed'
+        : 'skipped';
+    });
+
+    errors.sort((a, b) => a.index - b.index);
     return {
       success: true,
-      data: { merged: context.previousResults },
+      data: {
+        results,
+        errors,
+        total: batches.length,
+        succeeded: batches.length - errors.length,
+        failed: errors.length,
+      },
+      activeHandles: [LOOP_DONE_HANDLE],
     };
   }
 
+  // Loop items come from a template such as {{ csv-loader-1.rows }}, or a JSON array written into the field
+  private getLoopItems(node: WorkflowNode, context: WorkflowContext): any {
+    const { items } = node.data;
+    if (typeof items !== 'string') return items;
+
+    const value = resolveTemplateValue(items, { input: context.variables, previousResults: context.previousResults });
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+
   private async executeEmail(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
     const { to, subject, body } = node.data;
     
     // Simulate email sending
     console.log('Sending email:', {
-      to: this.interpolateTemplate(to || "", context),
-      subject: this.interpolateTemplate(subject || "", context),
-      body: this.interpolateTemplate(body || "", context),
+      to: to || "",
+      subject: subject || "",
+      body: body || "",
     });
 
     return {
@@ -321,30 +1143,64 @@ export class WorkflowEngine {
     };
   }
 
+  // Build the HTTP reply for the webhook call that started the run, if one is waiting
   private async executeWebhookResponse(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
-    const { responseData } = node.data;
-    
+    const { responseData = '', bodyType = 'json', headers = {}, respondImmediately } = node.data;
+
+    const statusCode = Number(node.data.statusCode ?? 200);
+    if (!Number.isInteger(statusCode) || statusCode < 100 || statusCode > 599) {
+      return { success: false, error: `Invalid response status code: ${node.data.statusCode}` };
+    }
+
+    const scope = { input: context.variables, previousResults: context.previousResults };
+    let body: any;
+    if (bodyType === 'text') {
+      body = typeof responseData === 'string' ? renderTemplate(responseData, scope) : JSON.stringify(responseData);
+    } else {
+      // A single expression keeps its value; any other text must be valid JSON once rendered
+      body = typeof responseData === 'string' ? resolveTemplateValue(responseData, scope) : responseData;
+      if (typeof body === 'string') {
+        try {
+          body = body.trim() === '' ? null : JSON.parse(body);
+        } catch {
+          return { success: false, error: 'Response body is not valid JSON' };
+        }
+      }
+    }
+
+    const response: WebhookResponse = {
+      statusCode,
+      headers: Object.fromEntries(
+        Object.entries(headers as Record<string, any>)
+          .filter(([name]) => name.trim() !== '')
+          .map(([name, value]) => [name.trim(), String(value)])
+      ),
+      bodyType: bodyType === 'text' ? 'text' : 'json',
+      body,
+      immediate: !!respondImmediately,
+    };
+    context.onWebhookResponse?.(response);
+
     return {
       success: true,
-      data: this.interpolateTemplate(responseData || "{}", context),
+      data: { ...response, sent: !!context.onWebhookResponse },
     };
   }
 
-  private interpolateTemplate(template: string, context: WorkflowContext): string {
-    if (!template) return "";
-    
-    return template.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return context.variables[key] || context.previousResults[key] || match;
-    });
+  // Resolve {{ expressions }} in every string field of the node, including nested LangChain config
+  private renderNodeTemplates(node: WorkflowNode, context: WorkflowContext): WorkflowNode {
+    const rawFields = (RAW_TEMPLATE_FIELDS[getNodeType(node)] || []).map(field => field.split('.'));
+    const data = renderTemplates(
+      omitPaths(node.data, rawFields),
+      { input: context.variables, previousResults: context.previousResults }
+    );
+    copyPaths(data, node.data, rawFields);
+    return { ...node, data };
   }
 
   // LangChain Node Support
   private isLangChainNode(node: WorkflowNode): boolean {
-    const langChainNodeTypes = [
-      'pdf-loader', 'csv-loader', 'url-scraper', 'pinecone-store', 'weaviate-store',
-      'openai-chat', 'anthropic-chat', 'conversation-memory', 'web-search', 'code-executor'
-    ];
-    return langChainNodeTypes.includes(node.data.type);
+    return LangChainNodeTypeEnum.safeParse(node.data.type).success;
   }
 
   private async executeLangChainNode(node: WorkflowNode, context: WorkflowContext): Promise<NodeExecutionResult> {
@@ -399,7 +1255,7 @@ export class WorkflowEngine {
 
   private async executePDFLoader(node: WorkflowNode, context: WorkflowContext, config: any): Promise<NodeExecutionResult> {
     try {
-      const filePath = this.interpolateTemplate(config.filePath || '', context);
+      const filePath = config.filePath || '';
       const pages = config.pages;
       
       const result = await langChainService.processPDF(filePath, pages);
@@ -416,20 +1272,22 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.errorClass,
         };
       }
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'PDF loader execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
 
   private async executeCSVLoader(node: WorkflowNode, context: WorkflowContext, config: any): Promise<NodeExecutionResult> {
     try {
-      const filePath = this.interpolateTemplate(config.filePath || '', context);
+      const filePath = config.filePath || '';
       const delimiter = config.delimiter || ',';
       
       const result = await langChainService.processCSV(filePath, delimiter);
@@ -439,6 +1297,7 @@ export class WorkflowEngine {
           success: true,
           data: {
             content: result.content,
+            rows: result.rows,
             metadata: result.metadata,
             nodeType: 'csv-loader'
           }
@@ -446,20 +1305,22 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.errorClass,
         };
       }
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'CSV loader execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
 
   private async executeURLScraper(node: WorkflowNode, context: WorkflowContext, config: any): Promise<NodeExecutionResult> {
     try {
-      const url = this.interpolateTemplate(config.url || '', context);
+      const url = config.url || '';
       const selector = config.selector;
       
       const result = await langChainService.scrapeURL(url, selector);
@@ -476,22 +1337,24 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.errorClass,
         };
       }
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'URL scraper execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
 
   private async executePineconeStore(node: WorkflowNode, context: WorkflowContext, config: any): Promise<NodeExecutionResult> {
     try {
-      const apiKey = this.interpolateTemplate(config.apiKey || '', context);
-      const environment = this.interpolateTemplate(config.environment || '', context);
-      const indexName = this.interpolateTemplate(config.indexName || '', context);
+      const apiKey = config.apiKey || '';
+      const environment = config.environment || '';
+      const indexName = config.indexName || '';
       
       const result = await langChainService.createPineconeStore(apiKey, environment, indexName);
       
@@ -506,21 +1369,23 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.errorClass,
         };
       }
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Pinecone store execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
 
   private async executeWeaviateStore(node: WorkflowNode, context: WorkflowContext, config: any): Promise<NodeExecutionResult> {
     try {
-      const url = this.interpolateTemplate(config.url || '', context);
-      const className = this.interpolateTemplate(config.className || '', context);
+      const url = config.url || '';
+      const className = config.className || '';
       
       const result = await langChainService.createWeaviateStore(url, className);
       
@@ -535,13 +1400,15 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.errorClass,
         };
       }
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Weaviate store execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
@@ -556,10 +1423,16 @@ export class WorkflowEngine {
       // Interpolate message content
       const interpolatedMessages = messages.map((msg: any) => ({
         ...msg,
-        content: this.interpolateTemplate(msg.content || '', context)
+        content: msg.content || ''
       }));
       
-      const result = await langChainService.chatWithOpenAI(interpolatedMessages, model, temperature, maxTokens);
+      const result = await langChainService.chatWithOpenAI(
+        interpolatedMessages,
+        model,
+        temperature,
+        maxTokens,
+        { onToken: this.emitTokens(node, context), signal: context.signal }
+      );
       
       if (result.success) {
         return {
@@ -572,13 +1445,15 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.errorClass,
         };
       }
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'OpenAI chat execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
@@ -592,10 +1467,15 @@ export class WorkflowEngine {
       // Interpolate message content
       const interpolatedMessages = messages.map((msg: any) => ({
         ...msg,
-        content: this.interpolateTemplate(msg.content || '', context)
+        content: msg.content || ''
       }));
       
-      const result = await langChainService.chatWithAnthropic(interpolatedMessages, model, temperature);
+      const result = await langChainService.chatWithAnthropic(
+        interpolatedMessages,
+        model,
+        temperature,
+        { onToken: this.emitTokens(node, context), signal: context.signal }
+      );
       
       if (result.success) {
         return {
@@ -608,20 +1488,22 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.errorClass,
         };
       }
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Anthropic chat execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
 
   private async executeConversationMemory(node: WorkflowNode, context: WorkflowContext, config: any): Promise<NodeExecutionResult> {
     try {
-      const memoryKey = this.interpolateTemplate(config.memoryKey || 'conversation', context);
+      const memoryKey = config.memoryKey || 'conversation';
       const maxTokens = config.maxTokens || 2000;
       
       const result = await langChainService.createConversationMemory(memoryKey, maxTokens);
@@ -637,20 +1519,22 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.errorClass,
         };
       }
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Conversation memory execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
 
   private async executeWebSearch(node: WorkflowNode, context: WorkflowContext, config: any): Promise<NodeExecutionResult> {
     try {
-      const query = this.interpolateTemplate(config.query || '', context);
+      const query = config.query || '';
       const searchEngine = config.searchEngine || 'google';
       const maxResults = config.maxResults || 5;
       
@@ -669,30 +1553,39 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.errorClass,
         };
       }
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Web search execution failed',
+        errorClass: classifyError(error),
       };
     }
   }
 
   private async executeCodeExecutor(node: WorkflowNode, context: WorkflowContext, config: any): Promise<NodeExecutionResult> {
     try {
-      const code = this.interpolateTemplate(config.code || '', context);
+      const code = config.code || '';
       const language = config.language || 'python';
       const timeout = config.timeout || 30;
       
-      const result = await langChainService.executeCode(code, language, timeout);
+      // The process reads { input, previousResults } as JSON from stdin
+      const result = await langChainService.executeCode(code, language, timeout, {
+        input: { input: context.variables, previousResults: context.previousResults },
+        signal: context.signal,
+      });
       
       if (result.success) {
         return {
           success: true,
           data: {
             result: result.result,
+            stdout: result.stdout,
+            stderr: result.stderr,
+            exitCode: result.exitCode,
             language,
             nodeType: 'code-executor'
           }
@@ -700,7 +1593,8 @@ export class WorkflowEngine {
       } else {
         return {
           success: false,
-          error: result.error
+          error: result.error,
+          errorClass: result.timedOut ? 'timeout' : undefined,
         };
       }
     } catch (error) {
@@ -0,0 +1,112 @@
+import { type WorkflowNode, type WorkflowEdge } from "@shared/schema";
+
+export interface WorkflowGraph {
+  nodes: Map<string, WorkflowNode>;
+  incoming: Map<string, WorkflowEdge[]>;
+  outgoing: Map<string, WorkflowEdge[]>;
+  roots: WorkflowNode[];
+  sinks: WorkflowNode[];
+}
+
+// Builder nodes are stored as generic canvas nodes and keep their workflow node type in data.nodeType
+export function getNodeType(node: WorkflowNode): string {
+  return node.data?.nodeType || node.type;
+}
+
+// Index nodes and edges for scheduling. Edges pointing at unknown nodes are ignored.
+export function buildWorkflowGraph(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowGraph {
+  const nodeMap = new Map<string, WorkflowNode>();
+  const incoming = new Map<string, WorkflowEdge[]>();
+  const outgoing = new Map<string, WorkflowEdge[]>();
+
+  for (const node of nodes) {
+    nodeMap.set(node.id, node);
+    incoming.set(node.id, []);
+    outgoing.set(node.id, []);
+  }
+
+  for (const edge of edges) {
+    if (!nodeMap.has(edge.source) || !nodeMap.has(edge.target)) continue;
+    outgoing.get(edge.source)!.push(edge);
+    incoming.get(edge.target)!.push(edge);
+  }
+
+  return {
+    nodes: nodeMap,
+    incoming,
+    outgoing,
+    roots: nodes.filter(node => incoming.get(node.id)!.length === 0),
+    sinks: nodes.filter(node => outgoing.get(node.id)!.length === 0),
+  };
+}
+
+// Returns the node ids forming the first cycle found, or null if the graph is acyclic
+export function findCycle(graph: WorkflowGraph): string[] | null {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (nodeId: string): string[] | null => {
+    if (visiting.has(nodeId)) {
+      return [...path.slice(path.indexOf(nodeId)), nodeId];
+    }
+    if (visited.has(nodeId)) return null;
+
+    visiting.add(nodeId);
+    path.push(nodeId);
+    for (const edge of graph.outgoing.get(nodeId) || []) {
+      const cycle = visit(edge.target);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    visiting.delete(nodeId);
+    visited.add(nodeId);
+    return null;
+  };
+
+  for (const nodeId of Array.from(graph.nodes.keys())) {
+    const cycle = visit(nodeId);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// The part of the graph reachable from one output handle of a node, such as the body of a loop.
+// Edges entering it from elsewhere are left out, so its entry nodes become its roots.
+export function extractBranch(graph: WorkflowGraph, nodeId: string, handle: string): WorkflowGraph {
+  const members = getBranchMembers(graph, nodeId, handle);
+  const nodes = Array.from(graph.nodes.values()).filter(node => members.has(node.id));
+  const edges = nodes.flatMap(node => graph.outgoing.get(node.id)!.filter(edge => members.has(edge.target)));
+  return buildWorkflowGraph(nodes, edges);
+}
+
+// Edges from a branch to the nodes after it, such as a join of a loop body and the loop's done path
+export function getBranchExits(graph: WorkflowGraph, nodeId: string, handle: string): WorkflowEdge[] {
+  const members = getBranchMembers(graph, nodeId, handle);
+  return Array.from(members).flatMap(id => graph.outgoing.get(id)!.filter(edge => !members.has(edge.target)));
+}
+
+// Nodes also reachable from the node's other handles run after it rather than inside the branch,
+// so the branch stops before them
+function getBranchMembers(graph: WorkflowGraph, nodeId: string, handle: string): Set<string> {
+  const outgoing = graph.outgoing.get(nodeId) || [];
+  const elsewhere = getReachable(graph, outgoing.filter(edge => edge.sourceHandle !== handle).map(edge => edge.target));
+  const members = getReachable(graph, outgoing.filter(edge => edge.sourceHandle === handle).map(edge => edge.target), elsewhere);
+  members.delete(nodeId);
+  return members;
+}
+
+function getReachable(graph: WorkflowGraph, start: string[], exclude = new Set<string>()): Set<string> {
+  const reached = new Set<string>();
+  const queue = [...start];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reached.has(id) || exclude.has(id)) continue;
+    reached.add(id);
+    for (const edge of graph.outgoing.get(id) || []) {
+      queue.push(edge.target);
+    }
+  }
+  return reached;
+}
@@ -0,0 +1,206 @@
+import {
+  ScheduleTriggerSchema,
+  SwitchRuleSchema,
+  type WorkflowNode,
+  type WorkflowEdge,
+  type WorkflowValidationProblem,
+} from "@shared/schema";
+import { buildWorkflowGraph, findCycle, getNodeType } from "./workflow-graph";
+import {
+  TRIGGER_NODE_TYPES,
+  ERROR_HANDLE,
+  LOOP_ITEM_HANDLE,
+  LOOP_DONE_HANDLE,
+  SWITCH_DEFAULT_HANDLE,
+} from "./workflow-engine";
+import { getNextCronRun, isValidTimeZone } from "./cron";
+import { normalizeWebhookPath } from "./webhook-auth";
+
+// Fields a node cannot run without, with the name shown in problems
+const REQUIRED_FIELDS: Record<string, Array<[field: string, label: string]>> = {
+  webhook: [['path', 'Path']],
+  agent: [['prompt', 'Prompt']],
+  code: [['code', 'Code'], ['language', 'Language']],
+  condition: [['condition', 'Condition']],
+  loop: [['items', 'List of items']],
+  'execute-workflow': [['workflowId', 'Workflow']],
+  email: [['to', 'Recipient']],
+};
+
+const WEBHOOK_METHODS = ['ANY', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Check that a workflow can run unattended: every entry point is a single trigger, edges connect
+// existing nodes and outputs, required fields are filled in and the graph has no cycles.
+// Returns every problem found rather than stopping at the first.
+export function validateWorkflow(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowValidationProblem[] {
+  const problems: WorkflowValidationProblem[] = [];
+  const graph = buildWorkflowGraph(nodes, edges);
+  const isTrigger = (node: WorkflowNode) => TRIGGER_NODE_TYPES.includes(getNodeType(node));
+
+  if (!nodes.some(isTrigger)) {
+    problems.push({ code: 'missing_trigger', message: 'Add a trigger node to start the workflow' });
+  }
+
+  for (const node of nodes) {
+    const hasInput = graph.incoming.get(node.id)!.length > 0;
+    if (isTrigger(node) && hasInput) {
+      problems.push({ code: 'trigger_has_input', nodeId: node.id, message: 'Trigger nodes cannot have incoming connections' });
+    } else if (!isTrigger(node) && !hasInput) {
+      problems.push({ code: 'unreachable_node', nodeId: node.id, message: 'Not connected to a trigger' });
+    }
+  }
+
+  for (const edge of edges) {
+    const source = graph.nodes.get(edge.source);
+    const missing = [source ? null : edge.source, graph.nodes.has(edge.target) ? null : edge.target].filter(Boolean);
+    if (missing.length > 0) {
+      problems.push({ code: 'dangling_edge', edgeId: edge.id, message: `Connection points at missing node ${missing.join(' and ')}` });
+      continue;
+    }
+
+    const handles = source && getSourceHandles(source);
+    if (handles && edge.sourceHandle && !handles.includes(edge.sourceHandle)) {
+      problems.push({
+        code: 'unknown_handle',
+        nodeId: source.id,
+        edgeId: edge.id,
+        message: `Connection leaves from output "${edge.sourceHandle}", which no longer exists`,
+      });
+    }
+  }
+
+  for (const node of nodes) {
+    problems.push(...validateNodeFields(node));
+  }
+  problems.push(...findDuplicateWebhooks(nodes));
+
+  const cycle = findCycle(graph);
+  if (cycle) {
+    const message = `Part of a cycle: ${cycle.map(nodeId => getNodeLabel(graph.nodes.get(nodeId)!)).join(' → ')}`;
+    for (const nodeId of Array.from(new Set(cycle))) {
+      problems.push({ code: 'cycle', nodeId, message });
+    }
+  }
+
+  return problems;
+}
+
+// Outputs of nodes with named handles; other nodes only have their default output
+function getSourceHandles(node: WorkflowNode): string[] | null {
+  switch (getNodeType(node)) {
+    case 'condition':
+      return ['true', 'false', ERROR_HANDLE];
+    case 'loop':
+      return [LOOP_ITEM_HANDLE, LOOP_DONE_HANDLE, ERROR_HANDLE];
+    case 'switch': {
+      const rules: any[] = Array.isArray(node.data.rules) ? node.data.rules : [];
+      return [...rules.map(rule => rule?.id), SWITCH_DEFAULT_HANDLE, ERROR_HANDLE];
+    }
+    default:
+      return null;
+  }
+}
+
+function validateNodeFields(node: WorkflowNode): WorkflowValidationProblem[] {
+  const problems: WorkflowValidationProblem[] = [];
+  const type = getNodeType(node);
+  const invalid = (field: string, message: string) => problems.push({ code: 'invalid_field', nodeId: node.id, field, message });
+
+  for (const [field, label] of REQUIRED_FIELDS[type] || []) {
+    if (isBlank(node.data[field])) {
+      problems.push({ code: 'missing_field', nodeId: node.id, field, message: `${label} is required` });
+    }
+  }
+
+  switch (type) {
+    case 'webhook': {
+      const method = String(node.data.method || 'ANY').toUpperCase();
+      if (!WEBHOOK_METHODS.includes(method)) invalid('method', `Unsupported method ${method}`);
+      if (node.data.authentication && node.data.authentication !== 'none' && isBlank(node.data.secret)) {
+        problems.push({ code: 'missing_field', nodeId: node.id, field: 'secret', message: 'Secret is required for authenticated webhooks' });
+      }
+      break;
+    }
+    case 'schedule': {
+      const parsed = ScheduleTriggerSchema.safeParse(node.data);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        invalid(String(issue.path[0] ?? 'cron'), issue.message);
+        break;
+      }
+      if (parsed.data.mode === 'cron') {
+        const validTimeZone = isValidTimeZone(parsed.data.timezone);
+        // Also catches expressions that parse but never match, such as April 31st
+        try {
+          getNextCronRun(parsed.data.cron, new Date(), validTimeZone ? parsed.data.timezone : undefined);
+        } catch (error) {
+          invalid('cron', error instanceof Error ? error.message : 'Invalid cron expression');
+        }
+        if (!validTimeZone) invalid('timezone', `Unknown time zone "${parsed.data.timezone}"`);
+      }
+      break;
+    }
+    case 'switch': {
+      const rules = Array.isArray(node.data.rules) ? node.data.rules : [];
+      if (rules.length === 0) {
+        problems.push({ code: 'missing_field', nodeId: node.id, field: 'rules', message: 'Add at least one output' });
+      }
+      if (node.data.mode !== 'classify' && isBlank(node.data.value)) {
+        problems.push({ code: 'missing_field', nodeId: node.id, field: 'value', message: 'Value is required' });
+      }
+      rules.forEach((rule: unknown, index: number) => {
+        const parsed = SwitchRuleSchema.safeParse(rule);
+        if (!parsed.success) {
+          invalid('rules', `Output ${index + 1}: ${parsed.error.issues[0].message}`);
+        } else if (node.data.mode !== 'classify' && parsed.data.operator === 'regex') {
+          try {
+            new RegExp(parsed.data.value || '');
+          } catch {
+            invalid('rules', `Output "${parsed.data.name}" has an invalid regular expression`);
+          }
+        }
+      });
+      break;
+    }
+    case 'merge':
+      if (node.data.mode === 'join' && isBlank(node.data.joinKey)) {
+        problems.push({ code: 'missing_field', nodeId: node.id, field: 'joinKey', message: 'Join key is required in join mode' });
+      }
+      break;
+    case 'webhook-response': {
+      const statusCode = Number(node.data.statusCode ?? 200);
+      if (!Number.isInteger(statusCode) || statusCode < 100 || statusCode > 599) {
+        invalid('statusCode', 'Status code must be between 100 and 599');
+      }
+      break;
+    }
+  }
+
+  return problems;
+}
+
+// Two webhook nodes on the same path would make the second one unreachable
+function findDuplicateWebhooks(nodes: WorkflowNode[]): WorkflowValidationProblem[] {
+  const seen = new Map<string, string>();
+  const problems: WorkflowValidationProblem[] = [];
+
+  for (const node of nodes) {
+    if (getNodeType(node) !== 'webhook' || isBlank(node.data.path)) continue;
+    const path = normalizeWebhookPath(String(node.data.path));
+    const first = seen.get(path);
+    if (first) {
+      problems.push({ code: 'duplicate_webhook', nodeId: node.id, field: 'path', message: `Path /${path} is already used by ${first}` });
+    } else {
+      seen.set(path, getNodeLabel(node));
+    }
+  }
+  return problems;
+}
+
+function getNodeLabel(node: WorkflowNode): string {
+  return node.data?.label || node.id;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
@@ -0,0 +1,189 @@
+import { type Workflow, type WorkflowVersion, type WorkflowNode, type WorkflowEdge, type WorkflowSettings } from "@shared/schema";
+import { getStorage } from "../config/storage";
+
+// What a version holds; the live workflow row has the same fields
+type WorkflowContent = Pick<WorkflowVersion, 'name' | 'description' | 'nodes' | 'edges' | 'settings'>;
+
+export interface ChangedItem<T> {
+  id: string;
+  before: T;
+  after: T;
+  // Changed properties, with node data keys as `data.<key>`
+  fields: string[];
+}
+
+export interface ItemDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: ChangedItem<T>[];
+}
+
+export interface WorkflowDiff {
+  from: number;
+  to: number;
+  nodes: ItemDiff<WorkflowNode>;
+  edges: ItemDiff<WorkflowEdge>;
+  // Top-level fields that changed: name, description or settings
+  fields: string[];
+}
+
+// Snapshot the workflow as a new version unless it matches the latest one, so saves that change
+// nothing do not fill the history. Returns the version that now matches the workflow.
+export async function recordWorkflowVersion(workflow: Workflow, message?: string): Promise<WorkflowVersion> {
+  const storage = await getStorage();
+  const [latest] = await storage.getWorkflowVersions(workflow.id);
+  if (latest && !message && getChangedFields(latest, workflow).length === 0) {
+    return latest;
+  }
+
+  return storage.createWorkflowVersion({
+    workflowId: workflow.id,
+    name: workflow.name,
+    description: workflow.description,
+    nodes: workflow.nodes as WorkflowNode[],
+    edges: workflow.edges as WorkflowEdge[],
+    settings: workflow.settings as WorkflowSettings,
+    message,
+  });
+}
+
+// Put a version's graph and settings back on the workflow's draft and record that as a new version,
+// so the history keeps what was replaced. The published version is left alone.
+export async function restoreWorkflowVersion(
+  workflowId: string,
+  versionNumber: number
+): Promise<{ workflow: Workflow; version: WorkflowVersion } | undefined> {
+  const storage = await getStorage();
+  const source = await storage.getWorkflowVersion(workflowId, versionNumber);
+  if (!source) return undefined;
+
+  const workflow = await storage.updateWorkflow(workflowId, {
+    name: source.name,
+    description: source.description,
+    nodes: source.nodes as WorkflowNode[],
+    edges: source.edges as WorkflowEdge[],
+    settings: source.settings as WorkflowSettings,
+  });
+  if (!workflow) return undefined;
+
+  const version = await recordWorkflowVersion(workflow, `Restored from version ${versionNumber}`);
+  return { workflow, version };
+}
+
+// Make the draft the version that webhooks and schedules run, snapshotting it first when the
+// latest version does not already match it. Callers validate the draft beforehand.
+export async function publishWorkflow(workflow: Workflow): Promise<{ workflow: Workflow; version: WorkflowVersion } | undefined> {
+  const storage = await getStorage();
+  const version = await recordWorkflowVersion(workflow);
+  const published = await storage.updateWorkflow(workflow.id, {
+    publishedVersion: version.version,
+    publishedAt: new Date(),
+  });
+  if (!published) return undefined;
+  return { workflow: published, version };
+}
+
+// The workflow as triggers run it, with the graph and settings of its published version. Workflows
+// that were active before publishing existed have no published version and run their saved graph.
+export async function getPublishedWorkflow(workflow: Workflow): Promise<Workflow> {
+  if (workflow.publishedVersion === null) return workflow;
+
+  const storage = await getStorage();
+  const version = await storage.getWorkflowVersion(workflow.id, workflow.publishedVersion);
+  if (!version) {
+    throw new Error(`Published version ${workflow.publishedVersion} of workflow ${workflow.id} not found`);
+  }
+  return {
+    ...workflow,
+    name: version.name,
+    description: version.description,
+    nodes: version.nodes,
+    edges: version.edges,
+    settings: version.settings,
+  };
+}
+
+// Nodes and edges are matched by id between the two versions
+export function diffWorkflowVersions(from: WorkflowVersion, to: WorkflowVersion): WorkflowDiff {
+  return {
+    from: from.version,
+    to: to.version,
+    nodes: diffItems(from.nodes as WorkflowNode[], to.nodes as WorkflowNode[], getNodeChanges),
+    edges: diffItems(from.edges as WorkflowEdge[], to.edges as WorkflowEdge[], getEdgeChanges),
+    fields: getChangedFields(from, to).filter(field => field !== 'nodes' && field !== 'edges'),
+  };
+}
+
+function getChangedFields(a: WorkflowContent, b: WorkflowContent): string[] {
+  const fields: string[] = (['name', 'settings'] as const).filter(field => !isDeepEqual(a[field], b[field]));
+  // Saves store an empty description as "" or null depending on the route
+  if ((a.description || null) !== (b.description || null)) fields.push('description');
+  // The builder also saves canvas state such as selection and measured sizes; only the workflow itself counts
+  const nodes = diffItems(a.nodes as WorkflowNode[], b.nodes as WorkflowNode[], getNodeChanges);
+  const edges = diffItems(a.edges as WorkflowEdge[], b.edges as WorkflowEdge[], getEdgeChanges);
+  if (hasChanges(nodes)) fields.push('nodes');
+  if (hasChanges(edges)) fields.push('edges');
+  return fields;
+}
+
+function hasChanges(diff: ItemDiff<unknown>): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+function diffItems<T extends { id: string }>(
+  before: T[],
+  after: T[],
+  getChanges: (a: T, b: T) => string[]
+): ItemDiff<T> {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterById = new Map(after.map(item => [item.id, item]));
+
+  const changed: ChangedItem<T>[] = [];
+  for (const item of after) {
+    const previous = beforeById.get(item.id);
+    if (!previous) continue;
+    const fields = getChanges(previous, item);
+    if (fields.length > 0) {
+      changed.push({ id: item.id, before: previous, after: item, fields });
+    }
+  }
+
+  return {
+    added: after.filter(item => !beforeById.has(item.id)),
+    removed: before.filter(item => !afterById.has(item.id)),
+    changed,
+  };
+}
+
+function getNodeChanges(a: WorkflowNode, b: WorkflowNode): string[] {
+  const fields: string[] = [];
+  if (a.type !== b.type) fields.push('type');
+  if (!isDeepEqual(a.position, b.position)) fields.push('position');
+
+  const keys = new Set([...Object.keys(a.data || {}), ...Object.keys(b.data || {})]);
+  for (const key of Array.from(keys)) {
+    if (!isDeepEqual(a.data?.[key], b.data?.[key])) fields.push(`data.${key}`);
+  }
+  return fields;
+}
+
+function getEdgeChanges(a: WorkflowEdge, b: WorkflowEdge): string[] {
+  return (['source', 'target', 'sourceHandle', 'targetHandle'] as const).filter(
+    field => (a[field] ?? null) !== (b[field] ?? null)
+  );
+}
+
+// Structural equality that ignores key order, since JSONB columns do not keep it
+export function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+
+  const keysA = Object.keys(a).filter(key => a[key] !== undefined);
+  const keysB = Object.keys(b).filter(key => b[key] !== undefined);
+  return keysA.length === keysB.length && keysA.every(key => isDeepEqual(a[key], b[key]));
+}
@@ -1,4 +1,4 @@
-import { type User, type InsertUser, type Workflow, type InsertWorkflow, type WorkflowExecution, type InsertWorkflowExecution } from "@shared/schema";
+import { type User, type InsertUser, type Workflow, type InsertWorkflow, type WorkflowExecution, type InsertWorkflowExecution, type NodeExecution, type InsertNodeExecution, type WorkflowSchedule, type InsertWorkflowSchedule, type WorkflowVersion, type InsertWorkflowVersion, type WorkflowTemplate, type InsertWorkflowTemplate, type WorkflowShare } from "@shared/schema";
 import { randomUUID } from "crypto";
 
 export interface IStorage {
@@ -11,27 +11,74 @@ export interface IStorage {
   
   // Workflow methods
   getWorkflows(userId?: string): Promise<Workflow[]>;
-  getWorkflow(id: string): Promise<Workflow | undefined>;
+  // With a userId, workflows owned by anyone else are treated as missing
+  getWorkflow(id: string, userId?: string): Promise<Workflow | undefined>;
   createWorkflow(workflow: InsertWorkflow & { userId?: string }): Promise<Workflow>;
   updateWorkflow(id: string, updates: Partial<InsertWorkflow>): Promise<Workflow | undefined>;
-  deleteWorkflow(id: string): Promise<boolean>;
+  deleteWorkflow(id: string, userId?: string): Promise<boolean>;
+
+  // Workflow version methods; versions are listed newest first
+  getWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]>;
+  getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined>;
+  // Stores the snapshot as the workflow's next version number
+  createWorkflowVersion(version: InsertWorkflowVersion): Promise<WorkflowVersion>;
+
+  // Workflow sharing methods
+  getWorkflowShares(workflowId: string): Promise<WorkflowShare[]>;
+  // Workflows other users have shared with the user
+  getSharedWorkflows(userId: string): Promise<Workflow[]>;
+  // Returns the existing share when the workflow is already shared with the user
+  addWorkflowShare(workflowId: string, userId: string): Promise<WorkflowShare>;
+  deleteWorkflowShare(workflowId: string, userId: string): Promise<boolean>;
+
+  // Workflow template methods
+  getWorkflowTemplates(): Promise<WorkflowTemplate[]>;
+  getWorkflowTemplate(id: string): Promise<WorkflowTemplate | undefined>;
+  // Built-in templates are created with a fixed id and no owner
+  createWorkflowTemplate(template: InsertWorkflowTemplate & { id?: string; userId?: string | null }): Promise<WorkflowTemplate>;
+  updateWorkflowTemplate(id: string, updates: Partial<InsertWorkflowTemplate> & { version?: number }): Promise<WorkflowTemplate | undefined>;
+  deleteWorkflowTemplate(id: string): Promise<boolean>;
   
   // Workflow execution methods
   getWorkflowExecutions(workflowId: string): Promise<WorkflowExecution[]>;
   getWorkflowExecution(id: string): Promise<WorkflowExecution | undefined>;
+  getChildExecutions(parentExecutionId: string): Promise<WorkflowExecution[]>;
+  // Oldest first, across all workflows
+  getExecutionsByStatus(statuses: string[]): Promise<WorkflowExecution[]>;
   createWorkflowExecution(execution: InsertWorkflowExecution): Promise<WorkflowExecution>;
   updateWorkflowExecution(id: string, updates: Partial<WorkflowExecution>): Promise<WorkflowExecution | undefined>;
+
+  // Node execution trace methods
+  getNodeExecutions(executionId: string): Promise<NodeExecution[]>;
+  createNodeExecution(nodeExecution: InsertNodeExecution): Promise<NodeExecution>;
+  updateNodeExecution(id: string, updates: Partial<NodeExecution>): Promise<NodeExecution | undefined>;
+
+  // Schedule trigger state methods
+  getWorkflowSchedules(workflowId: string): Promise<WorkflowSchedule[]>;
+  // Creates the schedule for the workflow node, or updates the given fields of the existing one
+  saveWorkflowSchedule(schedule: InsertWorkflowSchedule): Promise<WorkflowSchedule>;
+  deleteWorkflowSchedule(id: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private workflows: Map<string, Workflow>;
   private workflowExecutions: Map<string, WorkflowExecution>;
+  private nodeExecutions: Map<string, NodeExecution>;
+  private workflowSchedules: Map<string, WorkflowSchedule>;
+  private workflowVersions: Map<string, WorkflowVersion>;
+  private workflowShares: Map<string, WorkflowShare>;
+  private workflowTemplates: Map<string, WorkflowTemplate>;
 
   constructor() {
     this.users = new Map();
     this.workflows = new Map();
     this.workflowExecutions = new Map();
+    this.nodeExecutions = new Map();
+    this.workflowSchedules = new Map();
+    this.workflowVersions = new Map();
+    this.workflowShares = new Map();
+    this.workflowTemplates = new Map();
     
     // Create default user
     const defaultUser: User = {
@@ -79,8 +126,9 @@ export class MemStorage implements IStorage {
     return userId ? workflows.filter(w => w.userId === userId) : workflows;
   }
 
-  async getWorkflow(id: string): Promise<Workflow | undefined> {
-    return this.workflows.get(id);
+  async getWorkflow(id: string, userId?: string): Promise<Workflow | undefined> {
+    const workflow = this.workflows.get(id);
+    return workflow && (!userId || workflow.userId === userId) ? workflow : undefined;
   }
 
   async createWorkflow(insertWorkflow: InsertWorkflow & { userId?: string }): Promise<Workflow> {
@@ -95,6 +143,9 @@ export class MemStorage implements IStorage {
       edges: insertWorkflow.edges || [],
       settings: insertWorkflow.settings || {},
       isActive: insertWorkflow.isActive || false,
+      publishedVersion: insertWorkflow.publishedVersion ?? null,
+      publishedAt: insertWorkflow.publishedAt ?? null,
+      templateId: insertWorkflow.templateId ?? null,
       createdAt: now,
       updatedAt: now,
     };
@@ -115,10 +166,127 @@ export class MemStorage implements IStorage {
     return updatedWorkflow;
   }
 
-  async deleteWorkflow(id: string): Promise<boolean> {
+  async deleteWorkflow(id: string, userId?: string): Promise<boolean> {
+    if (!await this.getWorkflow(id, userId)) return false;
+    Array.from(this.workflowSchedules.values())
+      .filter(schedule => schedule.workflowId === id)
+      .forEach(schedule => this.workflowSchedules.delete(schedule.id));
+    Array.from(this.workflowVersions.values())
+      .filter(version => version.workflowId === id)
+      .forEach(version => this.workflowVersions.delete(version.id));
+    Array.from(this.workflowShares.values())
+      .filter(share => share.workflowId === id)
+      .forEach(share => this.workflowShares.delete(share.id));
     return this.workflows.delete(id);
   }
 
+  async getWorkflowShares(workflowId: string): Promise<WorkflowShare[]> {
+    return Array.from(this.workflowShares.values())
+      .filter(share => share.workflowId === workflowId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getSharedWorkflows(userId: string): Promise<Workflow[]> {
+    return Array.from(this.workflowShares.values())
+      .filter(share => share.userId === userId)
+      .map(share => this.workflows.get(share.workflowId))
+      .filter((workflow): workflow is Workflow => !!workflow);
+  }
+
+  async addWorkflowShare(workflowId: string, userId: string): Promise<WorkflowShare> {
+    const existing = Array.from(this.workflowShares.values()).find(
+      share => share.workflowId === workflowId && share.userId === userId,
+    );
+    if (existing) return existing;
+
+    const share: WorkflowShare = { id: randomUUID(), workflowId, userId, createdAt: new Date() };
+    this.workflowShares.set(share.id, share);
+    return share;
+  }
+
+  async deleteWorkflowShare(workflowId: string, userId: string): Promise<boolean> {
+    const share = Array.from(this.workflowShares.values()).find(
+      share => share.workflowId === workflowId && share.userId === userId,
+    );
+    return share ? this.workflowShares.delete(share.id) : false;
+  }
+
+  async getWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]> {
+    return Array.from(this.workflowVersions.values())
+      .filter(version => version.workflowId === workflowId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined> {
+    return Array.from(this.workflowVersions.values()).find(
+      (existing) => existing.workflowId === workflowId && existing.version === version,
+    );
+  }
+
+  async createWorkflowVersion(insertVersion: InsertWorkflowVersion): Promise<WorkflowVersion> {
+    const [latest] = await this.getWorkflowVersions(insertVersion.workflowId);
+    const version: WorkflowVersion = {
+      ...insertVersion,
+      id: randomUUID(),
+      version: (latest?.version || 0) + 1,
+      description: insertVersion.description || null,
+      nodes: insertVersion.nodes || [],
+      edges: insertVersion.edges || [],
+      settings: insertVersion.settings || {},
+      message: insertVersion.message || null,
+      createdAt: new Date(),
+    };
+    this.workflowVersions.set(version.id, version);
+    return version;
+  }
+
+  async getWorkflowTemplates(): Promise<WorkflowTemplate[]> {
+    return Array.from(this.workflowTemplates.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getWorkflowTemplate(id: string): Promise<WorkflowTemplate | undefined> {
+    return this.workflowTemplates.get(id);
+  }
+
+  async createWorkflowTemplate(insertTemplate: InsertWorkflowTemplate & { id?: string; userId?: string | null }): Promise<WorkflowTemplate> {
+    const now = new Date();
+    const template: WorkflowTemplate = {
+      ...insertTemplate,
+      id: insertTemplate.id || randomUUID(),
+      description: insertTemplate.description || null,
+      author: insertTemplate.author || null,
+      userId: insertTemplate.userId ?? null,
+      version: 1,
+      nodes: insertTemplate.nodes || [],
+      edges: insertTemplate.edges || [],
+      settings: insertTemplate.settings || {},
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.workflowTemplates.set(template.id, template);
+    return template;
+  }
+
+  async updateWorkflowTemplate(
+    id: string,
+    updates: Partial<InsertWorkflowTemplate> & { version?: number }
+  ): Promise<WorkflowTemplate | undefined> {
+    const template = this.workflowTemplates.get(id);
+    if (!template) return undefined;
+
+    const updatedTemplate: WorkflowTemplate = {
+      ...template,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.workflowTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async deleteWorkflowTemplate(id: string): Promise<boolean> {
+    return this.workflowTemplates.delete(id);
+  }
+
   async getWorkflowExecutions(workflowId: string): Promise<WorkflowExecution[]> {
     return Array.from(this.workflowExecutions.values())
       .filter(execution => execution.workflowId === workflowId)
@@ -129,15 +297,31 @@ export class MemStorage implements IStorage {
     return this.workflowExecutions.get(id);
   }
 
+  async getChildExecutions(parentExecutionId: string): Promise<WorkflowExecution[]> {
+    return Array.from(this.workflowExecutions.values())
+      .filter(execution => execution.parentExecutionId === parentExecutionId)
+      .sort((a, b) => new Date(a.executionTime).getTime() - new Date(b.executionTime).getTime());
+  }
+
+  async getExecutionsByStatus(statuses: string[]): Promise<WorkflowExecution[]> {
+    return Array.from(this.workflowExecutions.values())
+      .filter(execution => statuses.includes(execution.status))
+      .sort((a, b) => new Date(a.executionTime).getTime() - new Date(b.executionTime).getTime());
+  }
+
   async createWorkflowExecution(insertExecution: InsertWorkflowExecution): Promise<WorkflowExecution> {
     const id = randomUUID();
     const execution: WorkflowExecution = {
       ...insertExecution,
       id,
+      parentExecutionId: insertExecution.parentExecutionId || null,
+      version: insertExecution.version ?? null,
+      triggerNodeId: insertExecution.triggerNodeId ?? null,
       input: insertExecution.input || {},
       output: null,
-      status: 'running',
+      status: insertExecution.status || 'running',
       error: null,
+      nodeStates: {},
       executionTime: new Date(),
       completedAt: null,
     };
@@ -156,6 +340,68 @@ export class MemStorage implements IStorage {
     this.workflowExecutions.set(id, updatedExecution);
     return updatedExecution;
   }
+
+  async getNodeExecutions(executionId: string): Promise<NodeExecution[]> {
+    return Array.from(this.nodeExecutions.values())
+      .filter(nodeExecution => nodeExecution.executionId === executionId)
+      .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+  }
+
+  async createNodeExecution(insertNodeExecution: InsertNodeExecution): Promise<NodeExecution> {
+    const id = randomUUID();
+    const nodeExecution: NodeExecution = {
+      ...insertNodeExecution,
+      id,
+      attempt: insertNodeExecution.attempt || 1,
+      input: insertNodeExecution.input || null,
+      output: null,
+      error: null,
+      startedAt: new Date(),
+      completedAt: null,
+    };
+    this.nodeExecutions.set(id, nodeExecution);
+    return nodeExecution;
+  }
+
+  async updateNodeExecution(id: string, updates: Partial<NodeExecution>): Promise<NodeExecution | undefined> {
+    const nodeExecution = this.nodeExecutions.get(id);
+    if (!nodeExecution) return undefined;
+
+    const updatedNodeExecution: NodeExecution = {
+      ...nodeExecution,
+      ...updates,
+    };
+    this.nodeExecutions.set(id, updatedNodeExecution);
+    return updatedNodeExecution;
+  }
+
+  async getWorkflowSchedules(workflowId: string): Promise<WorkflowSchedule[]> {
+    return Array.from(this.workflowSchedules.values())
+      .filter(schedule => schedule.workflowId === workflowId);
+  }
+
+  async saveWorkflowSchedule(insertSchedule: InsertWorkflowSchedule): Promise<WorkflowSchedule> {
+    const existing = Array.from(this.workflowSchedules.values()).find(
+      schedule => schedule.workflowId === insertSchedule.workflowId && schedule.nodeId === insertSchedule.nodeId,
+    );
+
+    const schedule: WorkflowSchedule = existing
+      ? { ...existing, ...insertSchedule, updatedAt: new Date() }
+      : {
+          ...insertSchedule,
+          id: randomUUID(),
+          lastRunAt: insertSchedule.lastRunAt || null,
+          nextRunAt: insertSchedule.nextRunAt || null,
+          lastExecutionId: insertSchedule.lastExecutionId || null,
+          updatedAt: new Date(),
+        };
+    this.workflowSchedules.set(schedule.id, schedule);
+    return schedule;
+  }
+
+  async deleteWorkflowSchedule(id: string): Promise<boolean> {
+    return this.workflowSchedules.delete(id);
+  }
 }
 
 // Default in-memory storage - can be replaced by database storage
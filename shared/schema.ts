@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, jsonb, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, jsonb, timestamp, boolean, integer, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -21,6 +21,59 @@ export const workflows = pgTable("workflows", {
   edges: jsonb("edges").notNull().default('[]'),
   settings: jsonb("settings").notNull().default('{}'),
   isActive: boolean("is_active").notNull().default(false),
+  // Version that webhooks and schedules run; the nodes, edges and settings above are the draft being edited
+  publishedVersion: integer("published_version"),
+  publishedAt: timestamp("published_at"),
+  // Template the workflow was created from, if any
+  templateId: varchar("template_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Snapshot of a workflow taken on every save that changed it; numbered from 1 per workflow
+export const workflowVersions = pgTable("workflow_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workflowId: varchar("workflow_id").references(() => workflows.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  nodes: jsonb("nodes").notNull().default('[]'),
+  edges: jsonb("edges").notNull().default('[]'),
+  settings: jsonb("settings").notNull().default('{}'),
+  // Why the version was made when it was not an ordinary save, e.g. "Restored from version 3"
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workflowVersionIdx: uniqueIndex("workflow_versions_workflow_version_idx").on(table.workflowId, table.version),
+}));
+
+// Users a workflow is shared with. They can open and run it and see its executions; only the owner
+// can change it.
+export const workflowShares = pgTable("workflow_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workflowId: varchar("workflow_id").references(() => workflows.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workflowUserIdx: uniqueIndex("workflow_shares_workflow_user_idx").on(table.workflowId, table.userId),
+}));
+
+// Reusable workflow graphs. Built-in templates have no owner; the others can only be changed by their owner.
+export const workflowTemplates = pgTable("workflow_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  category: text("category").notNull(),
+  tags: jsonb("tags").notNull().default('[]'),
+  // Raised whenever the graph, settings or inputs change
+  version: integer("version").notNull().default(1),
+  author: text("author"),
+  userId: varchar("user_id").references(() => users.id),
+  nodes: jsonb("nodes").notNull().default('[]'),
+  edges: jsonb("edges").notNull().default('[]'),
+  settings: jsonb("settings").notNull().default('{}'),
+  // Input fields offered when running a workflow made from the template
+  inputs: jsonb("inputs").notNull().default('[]'),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -28,14 +81,48 @@ export const workflows = pgTable("workflows", {
 export const workflowExecutions = pgTable("workflow_executions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   workflowId: varchar("workflow_id").references(() => workflows.id).notNull(),
-  status: text("status").notNull(), // 'running', 'completed', 'failed', 'cancelled'
+  // Execution whose execute-workflow node started this one
+  parentExecutionId: varchar("parent_execution_id").references((): AnyPgColumn => workflowExecutions.id),
+  // Workflow version that was run
+  version: integer("version"),
+  // Trigger node that started the run, kept so a queued run can be picked up again after a restart
+  triggerNodeId: text("trigger_node_id"),
+  status: text("status").notNull(), // 'queued', 'running', 'completed', 'failed', 'cancelled', 'timed_out'
   input: jsonb("input"),
   output: jsonb("output"),
   error: text("error"),
+  nodeStates: jsonb("node_states").notNull().default('{}'),
   executionTime: timestamp("execution_time").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
 });
 
+export const nodeExecutions = pgTable("node_executions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  executionId: varchar("execution_id").references(() => workflowExecutions.id).notNull(),
+  nodeId: text("node_id").notNull(),
+  nodeType: text("node_type").notNull(),
+  status: text("status").notNull(), // 'running', 'completed', 'failed', 'timed_out'
+  attempt: integer("attempt").notNull().default(1),
+  input: jsonb("input"),
+  output: jsonb("output"),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Run state of each schedule trigger node, so schedules carry on where they left off after a restart
+export const workflowSchedules = pgTable("workflow_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workflowId: varchar("workflow_id").references(() => workflows.id, { onDelete: "cascade" }).notNull(),
+  nodeId: text("node_id").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  nextRunAt: timestamp("next_run_at"),
+  lastExecutionId: varchar("last_execution_id"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  workflowNodeIdx: uniqueIndex("workflow_schedules_workflow_node_idx").on(table.workflowId, table.nodeId),
+}));
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   email: true,
@@ -60,13 +147,74 @@ export const insertWorkflowSchema = createInsertSchema(workflows).pick({
   edges: true,
   settings: true,
   isActive: true,
+  publishedVersion: true,
+  publishedAt: true,
+  templateId: true,
 });
 
 export const insertWorkflowExecutionSchema = createInsertSchema(workflowExecutions).pick({
   workflowId: true,
+  parentExecutionId: true,
+  version: true,
+  triggerNodeId: true,
+  input: true,
+  status: true,
+}).partial({ status: true });
+
+export const insertNodeExecutionSchema = createInsertSchema(nodeExecutions).pick({
+  executionId: true,
+  nodeId: true,
+  nodeType: true,
+  status: true,
+  attempt: true,
   input: true,
 });
 
+export const insertWorkflowVersionSchema = createInsertSchema(workflowVersions).pick({
+  workflowId: true,
+  name: true,
+  description: true,
+  nodes: true,
+  edges: true,
+  settings: true,
+  message: true,
+});
+
+// Input field of a template's run form; the value is passed to the workflow under `name`
+export const TemplateInputSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['text', 'number', 'textarea', 'select', 'file', 'url']).default('text'),
+  label: z.string().min(1),
+  description: z.string().optional(),
+  required: z.boolean().default(false),
+  defaultValue: z.union([z.string(), z.number()]).optional(),
+  options: z.array(z.string()).optional(),
+  placeholder: z.string().optional(),
+});
+
+export const insertWorkflowTemplateSchema = createInsertSchema(workflowTemplates).pick({
+  name: true,
+  description: true,
+  category: true,
+  author: true,
+  nodes: true,
+  edges: true,
+  settings: true,
+}).extend({
+  name: z.string().min(1, 'Template name is required'),
+  category: z.string().min(1, 'Category is required'),
+  tags: z.array(z.string()).default([]),
+  inputs: z.array(TemplateInputSchema).default([]),
+});
+
+export const insertWorkflowScheduleSchema = createInsertSchema(workflowSchedules).pick({
+  workflowId: true,
+  nodeId: true,
+  lastRunAt: true,
+  nextRunAt: true,
+  lastExecutionId: true,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
 export type RegisterUser = z.infer<typeof registerUserSchema>;
@@ -75,17 +223,118 @@ export type InsertWorkflow = z.infer<typeof insertWorkflowSchema>;
 export type Workflow = typeof workflows.$inferSelect;
 export type InsertWorkflowExecution = z.infer<typeof insertWorkflowExecutionSchema>;
 export type WorkflowExecution = typeof workflowExecutions.$inferSelect;
+export type InsertNodeExecution = z.infer<typeof insertNodeExecutionSchema>;
+export type NodeExecution = typeof nodeExecutions.$inferSelect;
+export type InsertWorkflowVersion = z.infer<typeof insertWorkflowVersionSchema>;
+export type WorkflowVersion = typeof workflowVersions.$inferSelect;
+export type WorkflowShare = typeof workflowShares.$inferSelect;
+export type TemplateInput = z.infer<typeof TemplateInputSchema>;
+export type InsertWorkflowTemplate = z.infer<typeof insertWorkflowTemplateSchema>;
+export type WorkflowTemplate = typeof workflowTemplates.$inferSelect;
+export type InsertWorkflowSchedule = z.infer<typeof insertWorkflowScheduleSchema>;
+export type WorkflowSchedule = typeof workflowSchedules.$inferSelect;
 
 // Workflow node types
 export const NodeTypeEnum = z.enum([
   'webhook', 'manual', 'schedule',
   'openai', 'agent', 'vector',
-  'code', 'condition', 'merge',
+  'code', 'condition', 'switch', 'merge', 'loop', 'execute-workflow',
   'email', 'webhook-response'
 ]);
 
 export type NodeType = z.infer<typeof NodeTypeEnum>;
 
+// Nodes run through the LangChain service; the engine reads their type from data.type
+export const LangChainNodeTypeEnum = z.enum([
+  'pdf-loader', 'csv-loader', 'url-scraper', 'pinecone-store', 'weaviate-store',
+  'openai-chat', 'anthropic-chat', 'conversation-memory', 'web-search', 'code-executor'
+]);
+
+export type LangChainNodeType = z.infer<typeof LangChainNodeTypeEnum>;
+
+// Per-node status tracked on each execution
+export const NodeStatusEnum = z.enum([
+  'pending', 'running', 'completed', 'failed', 'skipped', 'cancelled', 'timed_out'
+]);
+
+export type NodeStatus = z.infer<typeof NodeStatusEnum>;
+
+// Merge node modes: wait for every input, take the first arrival, concatenate arrays, or join records by key
+export const MergeModeEnum = z.enum(['wait-all', 'wait-any', 'append', 'join']);
+
+export type MergeMode = z.infer<typeof MergeModeEnum>;
+
+// Switch node rule operators; `range` compares the value as a number against min and max
+export const SwitchOperatorEnum = z.enum(['equals', 'contains', 'regex', 'range']);
+
+export type SwitchOperator = z.infer<typeof SwitchOperatorEnum>;
+
+// One named output of a switch node. In classify mode only the name and description are used.
+export const SwitchRuleSchema = z.object({
+  // Output handle id
+  id: z.string().min(1),
+  name: z.string().min(1),
+  operator: SwitchOperatorEnum.default('equals'),
+  value: z.string().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  caseSensitive: z.boolean().optional(),
+  // Tells the model what belongs in this output when classifying
+  description: z.string().optional(),
+});
+
+export type SwitchRule = z.infer<typeof SwitchRuleSchema>;
+
+// Classes of transient errors a node can be configured to retry
+export const RetryableErrorEnum = z.enum(['rate_limit', 'timeout', 'network', 'server_error']);
+
+export type RetryableError = z.infer<typeof RetryableErrorEnum>;
+
+// Per-node retry policy, stored on node.data.retry
+export const RetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).default(1),
+  backoffBaseMs: z.number().int().min(0).default(1000),
+  backoffCapMs: z.number().int().min(0).default(30000),
+  jitter: z.boolean().default(true),
+  retryOn: z.array(RetryableErrorEnum).default(['rate_limit', 'timeout', 'network', 'server_error']),
+});
+
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+
+// Workflow-level execution settings, stored in workflows.settings
+export const WorkflowSettingsSchema = z.object({
+  // Workflow started with the failure details when a node fails without continue-on-error
+  errorWorkflowId: z.string().optional(),
+  // Deadline for the whole run; 0 disables it
+  timeoutSeconds: z.number().min(0).optional(),
+}).passthrough();
+
+export type WorkflowSettings = z.infer<typeof WorkflowSettingsSchema>;
+
+// Schedule trigger node settings, stored on node.data: a cron expression in a time zone, or a fixed interval
+export const ScheduleTriggerSchema = z.object({
+  mode: z.enum(['cron', 'interval']).default('cron'),
+  cron: z.string().default('0 9 * * *'),
+  timezone: z.string().default('UTC'),
+  intervalSeconds: z.number().int().min(1).default(3600),
+});
+
+export type ScheduleTrigger = z.infer<typeof ScheduleTriggerSchema>;
+
+// Why a workflow cannot be activated, pointing at the node, edge or field at fault where there is one
+export const WorkflowValidationProblemSchema = z.object({
+  code: z.enum([
+    'missing_trigger', 'unreachable_node', 'trigger_has_input', 'dangling_edge',
+    'unknown_handle', 'missing_field', 'invalid_field', 'duplicate_webhook', 'cycle',
+  ]),
+  message: z.string(),
+  nodeId: z.string().optional(),
+  edgeId: z.string().optional(),
+  field: z.string().optional(),
+});
+
+export type WorkflowValidationProblem = z.infer<typeof WorkflowValidationProblemSchema>;
+
 // Node data structure
 export const NodeSchema = z.object({
   id: z.string(),
@@ -107,3 +356,70 @@ export const EdgeSchema = z.object({
 
 export type WorkflowNode = z.infer<typeof NodeSchema>;
 export type WorkflowEdge = z.infer<typeof EdgeSchema>;
+
+// Secret a node needs that is left out of exported bundles. Set `value` before importing to fill it in,
+// otherwise the field is imported empty.
+export const CredentialPlaceholderSchema = z.object({
+  // `<workflow id>:<node id>:<field>`, using the ids in the bundle
+  key: z.string(),
+  workflowId: z.string(),
+  nodeId: z.string(),
+  // Path in the node's data, e.g. `secret` or `config.apiKey`
+  field: z.string(),
+  value: z.string().optional(),
+});
+
+export type CredentialPlaceholder = z.infer<typeof CredentialPlaceholderSchema>;
+
+// Bundled nodes store their node type in `type` and the React Flow type the builder renders them with,
+// usually customNode, in `builderType`
+export const BundledNodeSchema = NodeSchema.extend({
+  type: z.enum([...NodeTypeEnum.options, ...LangChainNodeTypeEnum.options]),
+  builderType: z.string().optional(),
+});
+
+export type BundledNode = z.infer<typeof BundledNodeSchema>;
+
+export const BundledWorkflowSchema = z.object({
+  // Id on the exporting instance; references between bundled workflows use it and are remapped on import
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  nodes: z.array(BundledNodeSchema),
+  edges: z.array(EdgeSchema),
+  settings: WorkflowSettingsSchema.default({}),
+});
+
+export type BundledWorkflow = z.infer<typeof BundledWorkflowSchema>;
+
+export const WORKFLOW_BUNDLE_FORMAT_VERSION = 1;
+
+// Portable export of a workflow with the sub-workflows and error workflows it calls
+export const WorkflowBundleSchema = z.object({
+  formatVersion: z.literal(WORKFLOW_BUNDLE_FORMAT_VERSION),
+  exportedAt: z.string(),
+  // Bundle id of the exported workflow
+  rootWorkflowId: z.string(),
+  workflows: z.array(BundledWorkflowSchema).min(1),
+  credentials: z.array(CredentialPlaceholderSchema).default([]),
+}).superRefine((bundle, ctx) => {
+  const ids = new Set<string>();
+  bundle.workflows.forEach((workflow, index) => {
+    if (ids.has(workflow.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['workflows', index, 'id'], message: `Duplicate workflow id ${workflow.id}` });
+    }
+    ids.add(workflow.id);
+
+    const nodeIds = new Set(workflow.nodes.map(node => node.id));
+    workflow.edges.forEach((edge, edgeIndex) => {
+      if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['workflows', index, 'edges', edgeIndex], message: `Edge ${edge.id} connects a node that is not in the workflow` });
+      }
+    });
+  });
+  if (!ids.has(bundle.rootWorkflowId)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rootWorkflowId'], message: `Workflow ${bundle.rootWorkflowId} is not in the bundle` });
+  }
+});
+
+export type WorkflowBundle = z.infer<typeof WorkflowBundleSchema>;